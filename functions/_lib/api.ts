@@ -0,0 +1,107 @@
+// Shared plumbing for the API functions: bindings, CORS, JSON responses,
+// error mapping and per-client rate limiting
+
+import { API_VERSION, ApiError } from '../../src/lib/api-schema';
+import { createKVStore, createMemoryStore } from './cache';
+import { applyRateLimit } from './rate-limit';
+
+export interface Env {
+  // KV namespace for cached results; an in-memory cache is used without it
+  EXTRACT_CACHE?: KVNamespace;
+  // KV namespace for rate-limit buckets; in-memory without it
+  RATE_LIMIT?: KVNamespace;
+  // Comma-separated API keys granting higher quotas (`key` or `key:perMinute`)
+  API_KEYS?: string;
+  // `1` lets the functions fetch private and loopback hosts, for running
+  // them locally against fixture servers; never set it in production
+  ALLOW_PRIVATE_HOSTS?: string;
+}
+
+export const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+};
+
+export function allowsPrivateHosts(env: Env): boolean {
+  return env.ALLOW_PRIVATE_HOSTS === '1';
+}
+
+// Stand-in for the rate-limit KV namespace in local runs
+const memoryRateLimits = createMemoryStore(10000);
+
+export function jsonResponse(body: unknown, status: number, headers: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...headers, 'Content-Type': 'application/json', 'X-API-Version': API_VERSION },
+  });
+}
+
+// Anything thrown that isn't an ApiError is an internal error
+function toApiError(error: unknown): ApiError {
+  return error instanceof ApiError
+    ? error
+    : new ApiError('INTERNAL_ERROR', error instanceof Error ? error.message : 'Failed to extract colors');
+}
+
+// Answer with an error's code and status
+export function errorResponse(error: unknown, headers: Record<string, string>): Response {
+  const apiError = toApiError(error);
+  return jsonResponse(apiError.toJSON(), apiError.status, headers);
+}
+
+// Stream Server-Sent Events while `run` works, closing the stream when it
+// settles; if it throws, the error body is sent as an `error` event. The
+// promise returned settles with the stream, for `waitUntil`.
+export function eventStreamResponse(
+  run: (send: (event: string, data: unknown) => void) => Promise<void>,
+  headers: Record<string, string>
+): { response: Response; done: Promise<void> } {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  // A client that went away just stops receiving; the work still finishes
+  // (and is cached)
+  const send = (event: string, data: unknown) => {
+    writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)).catch(() => {});
+  };
+
+  const done = run(send)
+    .catch(error => send('error', toApiError(error).toJSON()))
+    .finally(() => writer.close().catch(() => {}));
+
+  const response = new Response(readable, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'X-API-Version': API_VERSION,
+    },
+  });
+
+  return { response, done };
+}
+
+// Limit each client before doing any work for it; returns the headers for
+// the response, or the rejection to send instead
+export async function limitClient(
+  request: Request,
+  env: Env
+): Promise<{ headers: Record<string, string>; rejection: Response | null }> {
+  const rateLimitStore = env.RATE_LIMIT ? createKVStore(env.RATE_LIMIT) : memoryRateLimits;
+  const rateLimit = await applyRateLimit(request, rateLimitStore, env.API_KEYS);
+
+  // CORS headers
+  const headers = {
+    ...CORS_HEADERS,
+    'Access-Control-Expose-Headers': 'X-API-Version, X-Cache, Age, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset',
+    ...rateLimit.headers,
+  };
+
+  const rejection = rateLimit.allowed
+    ? null
+    : errorResponse(new ApiError(rateLimit.code, rateLimit.error), headers);
+
+  return { headers, rejection };
+}
@@ -0,0 +1,100 @@
+// Extraction result cache backed by Workers KV, or memory for local runs
+
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
+
+export interface CacheEntry<T> {
+  value: T;
+  // When the entry was stored or last revalidated (ms since epoch)
+  storedAt: number;
+  // Upstream validators for conditional revalidation
+  etag: string | null;
+  lastModified: string | null;
+}
+
+// How the response was served, reported in the X-Cache header
+export type CacheStatus = 'HIT' | 'MISS' | 'REVALIDATED' | 'BYPASS';
+
+// Results are fresh for an hour, then revalidated against upstream for a day
+export const CACHE_FRESH_SECONDS = 60 * 60;
+export const CACHE_STORE_SECONDS = 24 * 60 * 60;
+
+// KV's minimum expiration TTL
+const KV_MIN_TTL_SECONDS = 60;
+
+export function createKVStore(kv: KVNamespace): CacheStore {
+  return {
+    get: key => kv.get(key),
+    put: (key, value, ttlSeconds) =>
+      kv.put(key, value, { expirationTtl: Math.max(ttlSeconds, KV_MIN_TTL_SECONDS) }),
+  };
+}
+
+// In-memory store for `wrangler pages dev` and tests; only lives as long as
+// the isolate, and evicts the oldest entry once full
+export function createMemoryStore(maxEntries = 100): CacheStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    async put(key, value, ttlSeconds) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+}
+
+// Normalize a URL so trivially different spellings share a cache entry:
+// lowercase scheme and host, no default port or fragment, sorted query
+export function normalizeCacheUrl(input: string): string {
+  const url = new URL(input);
+  url.hash = '';
+  url.searchParams.sort();
+  if (!url.pathname) url.pathname = '/';
+  return url.toString().replace(/\?$/, '');
+}
+
+export async function readCacheEntry<T>(store: CacheStore, key: string): Promise<CacheEntry<T> | null> {
+  try {
+    const raw = await store.get(key);
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+  } catch {
+    // A broken entry or an unavailable store is just a miss
+    return null;
+  }
+}
+
+export async function writeCacheEntry<T>(store: CacheStore, key: string, entry: CacheEntry<T>): Promise<void> {
+  try {
+    await store.put(key, JSON.stringify(entry), CACHE_STORE_SECONDS);
+  } catch {
+    // Caching is best-effort
+  }
+}
+
+// Whether an entry is still within its fresh lifetime
+export function isFresh(entry: CacheEntry<unknown>, now = Date.now()): boolean {
+  return now - entry.storedAt < CACHE_FRESH_SECONDS * 1000;
+}
+
+// Conditional request headers for revalidating an entry, or null if
+// upstream gave no validators
+export function revalidationHeaders(entry: CacheEntry<unknown>): Record<string, string> | null {
+  const headers: Record<string, string> = {};
+  if (entry.etag) headers['If-None-Match'] = entry.etag;
+  if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+  return Object.keys(headers).length > 0 ? headers : null;
+}
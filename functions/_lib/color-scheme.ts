@@ -0,0 +1,45 @@
+// Light/dark color scheme scoping of CSS rules
+
+import type { CSSRule } from './css-parser';
+
+// At-rule preludes that only apply in dark mode
+const DARK_MEDIA = /prefers-color-scheme\s*:\s*dark/i;
+
+// Selectors sites use to scope their dark theme: .dark, .dark-mode,
+// .theme-dark, [data-theme="dark"], [data-bs-theme=dark], [data-mode=dark]...
+const DARK_SELECTOR = /\.(?:dark|dark-mode|dark-theme|theme-dark)(?![\w-])|\[data-[\w-]*(?:theme|mode|scheme)[\w-]*\s*[~|^$*]?=\s*["']?dark["']?\s*\]|\[color-scheme\s*=\s*["']?dark["']?\s*\]/i;
+
+// Check if a rule only applies when the page is in dark mode
+export function isDarkScopeRule(rule: CSSRule): boolean {
+  if (rule.atRules.some(prelude => prelude.startsWith('@media') && DARK_MEDIA.test(prelude))) {
+    return true;
+  }
+
+  // Every selector in the list must be dark-scoped, otherwise the rule
+  // also applies in light mode
+  const selectors = rule.selector.split(',').map(s => s.trim()).filter(Boolean);
+  return selectors.length > 0 && selectors.every(selector => DARK_SELECTOR.test(selector));
+}
+
+// Split rules into those that apply in light mode and dark-only rules
+export function splitByColorScheme(rules: CSSRule[]): { light: CSSRule[]; dark: CSSRule[] } {
+  const light: CSSRule[] = [];
+  const dark: CSSRule[] = [];
+
+  for (const rule of rules) {
+    (isDarkScopeRule(rule) ? dark : light).push(rule);
+  }
+
+  return { light, dark };
+}
+
+// Keep only the declarations that reference custom properties, i.e. the
+// ones whose color changes when dark mode overrides the tokens
+export function rulesUsingCustomProperties(rules: CSSRule[]): CSSRule[] {
+  return rules
+    .map(rule => ({
+      ...rule,
+      declarations: rule.declarations.filter(d => !d.property.startsWith('--') && d.value.includes('var(')),
+    }))
+    .filter(rule => rule.declarations.length > 0);
+}
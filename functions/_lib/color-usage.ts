@@ -0,0 +1,129 @@
+// Property- and selector-aware color attribution
+
+import { findCSSColors } from '../../src/lib/color-parser';
+import { parseColor, rgbToHex } from '../../src/lib/color-utils';
+import type { ColorUsage, SelectorKind } from '../../src/lib/theme-generator';
+import type { CSSRule } from './css-parser';
+import { substituteVars, tokenValueToColor } from './custom-properties';
+import { type ElementIndex, countSelectorMatches } from './element-index';
+
+// Selector patterns for the element kinds generateTheme cares about,
+// matched against the subject (last compound) of each selector
+const SELECTOR_KINDS: [SelectorKind, RegExp][] = [
+  ['root', /^(?::root|html|body)$/i],
+  ['button', /^button\b|\.btn\b|\.button\b|\.cta\b|\[type=["']?(?:submit|button)|\[role=["']?button/i],
+  ['link', /^a\b|\.link\b/i],
+  ['heading', /^h[1-6]\b|\.heading\b|\.title\b/i],
+  ['input', /^(?:input|textarea|select)\b|\.form-control\b|\.input\b/i],
+];
+
+// Map a declared property onto the color property it sets
+export function normalizeProperty(property: string): string | null {
+  if (property === 'background' || property === 'background-color') return 'background-color';
+  if (property === 'color') return 'color';
+  if (/^(border|outline)/.test(property)) {
+    return /(radius|width|style|collapse|spacing|image|offset)$/.test(property) ? null : 'border-color';
+  }
+  if (property.startsWith('text-decoration')) return 'text-decoration-color';
+  if (['fill', 'stroke', 'box-shadow', 'text-shadow', 'caret-color', 'accent-color'].includes(property)) {
+    return property;
+  }
+  return null;
+}
+
+// Classify each selector in a selector list by its subject
+export function classifySelector(selector: string): SelectorKind[] {
+  const kinds = new Set<SelectorKind>();
+
+  for (const part of selector.split(',')) {
+    const compounds = part.trim().split(/\s*[\s>+~]\s*/).filter(Boolean);
+    const subject = compounds[compounds.length - 1];
+    if (!subject) continue;
+
+    // Ignore state pseudo-classes when checking for root selectors
+    const bare = subject.replace(/::?[\w-]+(\([^)]*\))?/g, '');
+
+    for (const [kind, pattern] of SELECTOR_KINDS) {
+      if (pattern.test(kind === 'root' ? bare : subject)) {
+        kinds.add(kind);
+      }
+    }
+  }
+
+  return [...kinds];
+}
+
+// Quoted strings and url() references, whose contents aren't colors even
+// when they read like one ("gray", url(images/red.png), url(#bad))
+const QUOTED_STRINGS = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g;
+const URL_REFERENCES = /\burl\([^)]*\)/gi;
+
+// Find every color in a (var()-substituted) declaration value
+export function findColorsInValue(declared: string): string[] {
+  const colors: string[] = [];
+  const value = declared.replace(QUOTED_STRINGS, ' ').replace(URL_REFERENCES, ' ');
+
+  for (const literal of findCSSColors(value)) {
+    const rgb = parseColor(literal);
+    if (rgb) colors.push(rgbToHex(rgb));
+  }
+
+  // Named colors appear as bare keywords (e.g. `border: 1px solid gray`)
+  for (const keyword of value.match(/(?<![#\w-])[a-z]+(?![\w(-])/gi) ?? []) {
+    const rgb = parseColor(keyword);
+    if (rgb) colors.push(rgbToHex(rgb));
+  }
+
+  return colors;
+}
+
+// Attribute each color to the properties and selector kinds it is used on,
+// and with an element index, to the page elements its rules match
+export function collectColorUsage(rules: CSSRule[], props: Map<string, string>, elements?: ElementIndex): ColorUsage[] {
+  const usage = new Map<string, {
+    count: number;
+    elements: number;
+    properties: Set<string>;
+    selectors: Set<SelectorKind>;
+  }>();
+
+  for (const rule of rules) {
+    let kinds: SelectorKind[] | null = null;
+    let matches: number | null = null;
+
+    for (const { property, value } of rule.declarations) {
+      const colorProperty = normalizeProperty(property);
+      if (!colorProperty) continue;
+
+      const resolved = value.includes('var(') ? substituteVars(value, props) : value;
+      if (!resolved) continue;
+
+      // A bare var() reference can resolve to a whole token value
+      const direct = tokenValueToColor(resolved);
+      const colors = direct ? [direct] : findColorsInValue(resolved);
+      if (colors.length === 0) continue;
+
+      kinds ??= classifySelector(rule.selector);
+      matches ??= elements ? countSelectorMatches(rule.selector, elements) : 0;
+
+      for (const color of colors) {
+        const entry = usage.get(color) ?? { count: 0, elements: 0, properties: new Set(), selectors: new Set() };
+        entry.count += 1;
+        entry.elements += matches;
+        entry.properties.add(colorProperty);
+        kinds.forEach(kind => entry.selectors.add(kind));
+        usage.set(color, entry);
+      }
+    }
+  }
+
+  return [...usage.entries()]
+    .map(([color, entry]) => ({
+      color,
+      count: entry.count,
+      ...(elements && { elements: entry.elements }),
+      properties: [...entry.properties],
+      selectors: [...entry.selectors],
+    }))
+    .sort((a, b) => b.count - a.count);
+}
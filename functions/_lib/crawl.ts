@@ -0,0 +1,138 @@
+// Same-origin crawl from a start page, for extracting a site-wide palette
+
+import type { CrawlOptions } from '../../src/lib/api-schema';
+import { findBaseUrl, parseAttributes } from './html';
+
+export interface CrawledDocument {
+  // Final URL after redirects
+  url: string;
+  html: string;
+  depth: number;
+}
+
+export interface CrawlBudget {
+  // Pages fetched at the same time
+  concurrency: number;
+  // Time allowed for all page fetches after the start page
+  timeoutMs: number;
+  // HTML kept across all pages, start page included
+  maxBytes: number;
+}
+
+export const DEFAULT_CRAWL_BUDGET: CrawlBudget = {
+  concurrency: 3,
+  timeoutMs: 15000,
+  maxBytes: 6 * 1024 * 1024,
+};
+
+// Fetch a page's HTML and final URL (after redirects), or null if it can't
+// be loaded
+export type FetchPage = (url: string, signal: AbortSignal) => Promise<{ url: string; text: string } | null>;
+
+// Links to files rather than pages
+const NON_PAGE_PATH = /\.(?:pdf|zip|gz|dmg|exe|msi|apk|png|jpe?g|gif|webp|avif|svg|ico|mp[34]|webm|mov|woff2?|css|js|json|xml|rss|txt)$/i;
+
+// URL without its fragment, so `/about` and `/about#team` are one page
+function pageKey(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.toString();
+}
+
+// Same-origin page links (`<a href>`) in document order, without fragments,
+// downloads and links to files
+export function findPageLinks(html: string, pageUrl: string): string[] {
+  const origin = new URL(pageUrl).origin;
+  const baseUrl = findBaseUrl(html, pageUrl);
+  const links = new Set<string>();
+  const markup = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  for (const [tag] of markup.matchAll(/<a\b(?:[^>"']|"[^"]*"|'[^']*')*>/gi)) {
+    const attributes = parseAttributes(tag);
+    if (!attributes.href || 'download' in attributes) continue;
+
+    let url: URL;
+    try {
+      url = new URL(attributes.href.trim(), baseUrl);
+    } catch {
+      continue;
+    }
+    if (url.origin !== origin || NON_PAGE_PATH.test(url.pathname)) continue;
+
+    links.add(pageKey(url.toString()));
+  }
+
+  links.delete(pageKey(pageUrl));
+  return [...links];
+}
+
+// Crawl breadth-first from an already fetched start page, following
+// same-origin links up to `options.depth` levels until `options.pages`
+// pages (start page included) have been collected. Pages that fail,
+// redirect off-site or repeat one already seen are skipped.
+export async function crawlSite(
+  start: { url: string; html: string },
+  options: CrawlOptions,
+  fetchPage: FetchPage,
+  budget: CrawlBudget = DEFAULT_CRAWL_BUDGET
+): Promise<CrawledDocument[]> {
+  const origin = new URL(start.url).origin;
+  const documents: CrawledDocument[] = [{ url: start.url, html: start.html, depth: 0 }];
+  const seen = new Set([pageKey(start.url)]);
+  let bytes = start.html.length;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), budget.timeoutMs);
+
+  try {
+    let level = [documents[0]];
+
+    for (let depth = 1; depth <= options.depth && level.length > 0 && documents.length < options.pages; depth++) {
+      // Links are queued in the order their pages were crawled, so pages
+      // linked from the start page's navigation come first
+      const queue: string[] = [];
+      for (const page of level) {
+        for (const link of findPageLinks(page.html, page.url)) {
+          if (!seen.has(link)) {
+            seen.add(link);
+            queue.push(link);
+          }
+        }
+      }
+
+      // Fetched a few at a time, only as many as are still wanted, and kept
+      // in link order so the result doesn't depend on which page answers
+      // first
+      const nextLevel: CrawledDocument[] = [];
+      let next = 0;
+
+      while (next < queue.length && documents.length + nextLevel.length < options.pages) {
+        if (controller.signal.aborted || bytes >= budget.maxBytes) break;
+        const batch = queue.slice(next, next + Math.min(budget.concurrency, options.pages - documents.length - nextLevel.length));
+        next += batch.length;
+
+        const pages = await Promise.all(batch.map(url => fetchPage(url, controller.signal).catch(() => null)));
+
+        pages.forEach((page, index) => {
+          if (!page || bytes + page.text.length > budget.maxBytes) return;
+
+          // Redirects can land off-site or on a page that was already crawled
+          const key = pageKey(page.url);
+          if (new URL(page.url).origin !== origin || (key !== batch[index] && seen.has(key))) return;
+          seen.add(key);
+
+          bytes += page.text.length;
+          nextLevel.push({ url: page.url, html: page.text, depth });
+        });
+      }
+
+      documents.push(...nextLevel);
+      if (controller.signal.aborted) break;
+      level = nextLevel;
+    }
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  return documents;
+}
@@ -0,0 +1,185 @@
+// Lightweight CSS rule walker used by the extract function
+
+export interface CSSDeclaration {
+  property: string;
+  value: string;
+  // Where the declaration starts in the parsed CSS (1-based)
+  line?: number;
+  column?: number;
+}
+
+export interface CSSRule {
+  // Selector (or at-rule prelude for blocks like @font-face)
+  selector: string;
+  declarations: CSSDeclaration[];
+  // Preludes of the enclosing at-rules, outermost first (e.g. '@media (min-width: 640px)')
+  atRules: string[];
+}
+
+// Blank out /* comments */, keeping line breaks so positions still match
+// the source. Strings are matched too, so a /* inside one (content: "/*")
+// is left alone.
+function stripComments(css: string): string {
+  return css.replace(/"(?:[^"\\\n]|\\[\s\S])*"|'(?:[^'\\\n]|\\[\s\S])*'|\/\*[\s\S]*?\*\//g, match =>
+    match.startsWith('/*') ? match.replace(/[^\n]/g, ' ') : match
+  );
+}
+
+// Split "prop: value" into a declaration
+function parseDeclaration(text: string): CSSDeclaration | null {
+  const colon = text.indexOf(':');
+  if (colon === -1) return null;
+
+  const property = text.slice(0, colon).trim();
+  const value = text.slice(colon + 1).replace(/!important\s*$/i, '').trim();
+  if (!property || !value) return null;
+
+  // Custom properties are case-sensitive, everything else is not
+  return {
+    property: property.startsWith('--') ? property : property.toLowerCase(),
+    value,
+  };
+}
+
+// Combine a nested selector with its parent (CSS nesting)
+function nestSelector(parent: string, child: string): string {
+  const parents = parent.split(',').map(s => s.trim());
+  return child
+    .split(',')
+    .map(s => s.trim())
+    .flatMap(c => parents.map(p => (c.includes('&') ? c.replace(/&/g, p) : `${p} ${c}`)))
+    .join(', ');
+}
+
+// Walk a stylesheet and return every block that has declarations
+export function parseCSSRules(css: string): CSSRule[] {
+  const text = stripComments(css);
+  const rules: CSSRule[] = [];
+  const stack: { prelude: string; declarations: CSSDeclaration[] }[] = [];
+
+  let buffer = '';
+  let quote: string | null = null;
+  let parenDepth = 0;
+
+  // Position of the current line, and of the buffer's first character
+  let line = 1;
+  let lineStart = 0;
+  let start: { line: number; column: number } | null = null;
+
+  const flushDeclaration = () => {
+    const top = stack[stack.length - 1];
+    // Statement at-rules (@import, @charset...) aren't declarations
+    if (top && buffer.trim() && !buffer.trim().startsWith('@')) {
+      const declaration = parseDeclaration(buffer);
+      if (declaration) top.declarations.push(start ? { ...declaration, ...start } : declaration);
+    }
+    buffer = '';
+    start = null;
+  };
+
+  const closeBlock = () => {
+    flushDeclaration();
+    const block = stack.pop();
+    if (!block || block.declarations.length === 0) return;
+
+    const atRules: string[] = [];
+    let selector = '';
+    for (const ancestor of stack) {
+      if (ancestor.prelude.startsWith('@')) {
+        atRules.push(ancestor.prelude);
+      } else {
+        selector = selector ? nestSelector(selector, ancestor.prelude) : ancestor.prelude;
+      }
+    }
+
+    if (block.prelude.startsWith('@')) {
+      selector = block.prelude;
+    } else {
+      selector = selector ? nestSelector(selector, block.prelude) : block.prelude;
+    }
+
+    rules.push({ selector, declarations: block.declarations, atRules });
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\n') {
+      line++;
+      lineStart = i + 1;
+    } else if (start === null && !quote && !/[\s;{}]/.test(char)) {
+      start = { line, column: i - lineStart + 1 };
+    }
+
+    if (quote) {
+      buffer += char;
+      if (char === '\\') {
+        buffer += text[++i] ?? '';
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+      case "'":
+        quote = char;
+        buffer += char;
+        break;
+      case '(':
+        parenDepth++;
+        buffer += char;
+        break;
+      case ')':
+        parenDepth = Math.max(0, parenDepth - 1);
+        buffer += char;
+        break;
+      case ';':
+        if (parenDepth > 0) {
+          buffer += char;
+        } else {
+          flushDeclaration();
+        }
+        break;
+      case '{':
+        if (parenDepth > 0) {
+          buffer += char;
+          break;
+        }
+        stack.push({ prelude: buffer.trim().replace(/\s+/g, ' '), declarations: [] });
+        buffer = '';
+        start = null;
+        break;
+      case '}':
+        if (parenDepth > 0) {
+          buffer += char;
+          break;
+        }
+        closeBlock();
+        break;
+      default:
+        buffer += char;
+    }
+  }
+
+  // Close any blocks left open by truncated stylesheets
+  while (stack.length > 0) {
+    closeBlock();
+  }
+
+  return rules;
+}
+
+// Collect an HTML document's style="" attributes into a single stylesheet
+export function extractInlineStyles(html: string): string | null {
+  const inlineStyles: string[] = [];
+  for (const match of html.matchAll(/\sstyle\s*=\s*(?:"([^"]*)"|'([^']*)')/gi)) {
+    const declarations = (match[1] ?? match[2]).replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+    if (declarations.trim()) {
+      inlineStyles.push(`[style] { ${declarations} }`);
+    }
+  }
+
+  return inlineStyles.length > 0 ? inlineStyles.join('\n') : null;
+}
@@ -0,0 +1,203 @@
+// CSS custom property (design token) collection and var() resolution
+
+import { parseColor, rgbToHex } from '../../src/lib/color-utils';
+import type { CSSRule } from './css-parser';
+
+// Selectors whose custom properties define the page-wide tokens
+const ROOT_SELECTOR = /^(?::root|html|:host|body|\*)$/i;
+
+// Maximum var() nesting before we give up on a chain
+const MAX_VAR_DEPTH = 32;
+
+// Like browsers, a substitution longer than this is an invalid value, and
+// so is one taking more var() lookups, so chains that fan out
+// (`--a: var(--b) var(--b)`) can't blow up
+const MAX_SUBSTITUTED_LENGTH = 16 * 1024;
+const MAX_SUBSTITUTIONS = 1000;
+
+// Each property's resolved value, per set of properties
+const resolvedProperties = new WeakMap<Map<string, string>, Map<string, string | null>>();
+
+// Collect custom property declarations, preferring :root-level definitions
+export function collectCustomProperties(rules: CSSRule[]): Map<string, string> {
+  const rootProps = new Map<string, string>();
+  const otherProps = new Map<string, string>();
+
+  for (const rule of rules) {
+    const isRoot = rule.atRules.length === 0 &&
+      rule.selector.split(',').some(s => ROOT_SELECTOR.test(s.trim()));
+
+    for (const { property, value } of rule.declarations) {
+      if (!property.startsWith('--')) continue;
+
+      if (isRoot) {
+        // Later :root declarations win, as they would in the cascade
+        rootProps.set(property, value);
+      } else if (!otherProps.has(property)) {
+        otherProps.set(property, value);
+      }
+    }
+  }
+
+  for (const [name, value] of otherProps) {
+    if (!rootProps.has(name)) rootProps.set(name, value);
+  }
+
+  return rootProps;
+}
+
+// Layer scoped custom property declarations (e.g. a dark theme) over a base
+// set, later declarations winning as they would in the cascade
+export function overrideCustomProperties(base: Map<string, string>, rules: CSSRule[]): Map<string, string> {
+  const props = new Map(base);
+
+  for (const rule of rules) {
+    for (const { property, value } of rule.declarations) {
+      if (property.startsWith('--')) props.set(property, value);
+    }
+  }
+
+  return props;
+}
+
+// Find the index of the parenthesis closing the one opened just before `start`
+function findClosingParen(text: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+interface Substitution {
+  props: Map<string, string>;
+  resolving: Set<string>;
+  resolved: Map<string, string | null>;
+  steps: number;
+}
+
+// A substituted value (null when invalid), and whether it depends on where
+// resolution started (it ran into a cycle or a limit) so can't be cached
+interface Substituted {
+  value: string | null;
+  contextual: boolean;
+}
+
+function substitute(value: string, state: Substitution): Substituted {
+  if (state.resolving.size > MAX_VAR_DEPTH) return { value: null, contextual: true };
+
+  let result = '';
+  let cursor = 0;
+  let contextual = false;
+
+  for (;;) {
+    const start = value.indexOf('var(', cursor);
+    if (start === -1) break;
+
+    const end = findClosingParen(value, start + 4);
+    if (end === -1) return { value: null, contextual };
+    if (++state.steps > MAX_SUBSTITUTIONS) return { value: null, contextual: true };
+
+    const inner = value.slice(start + 4, end);
+    const comma = inner.indexOf(',');
+    const name = (comma === -1 ? inner : inner.slice(0, comma)).trim();
+    const fallback = comma === -1 ? null : inner.slice(comma + 1).trim();
+
+    let replacement: string | null = null;
+
+    if (state.resolving.has(name)) {
+      contextual = true;
+    } else if (state.props.has(name)) {
+      const property = resolveProperty(name, state);
+      contextual ||= property.contextual;
+      replacement = property.value;
+    }
+
+    if (replacement === null && fallback !== null) {
+      const substituted = substitute(fallback, state);
+      contextual ||= substituted.contextual;
+      replacement = substituted.value;
+    }
+
+    if (replacement === null) return { value: null, contextual };
+
+    result += value.slice(cursor, start) + replacement;
+    if (result.length > MAX_SUBSTITUTED_LENGTH) return { value: null, contextual };
+    cursor = end + 1;
+  }
+
+  result += value.slice(cursor);
+  return { value: result.length > MAX_SUBSTITUTED_LENGTH ? null : result, contextual };
+}
+
+// A property's value with its var()s substituted, worked out once per set
+// of properties unless it depends on where resolution started
+function resolveProperty(name: string, state: Substitution): Substituted {
+  const cached = state.resolved.get(name);
+  if (cached !== undefined) return { value: cached, contextual: false };
+
+  state.resolving.add(name);
+  const property = substitute(state.props.get(name)!, state);
+  state.resolving.delete(name);
+
+  if (!property.contextual) state.resolved.set(name, property.value);
+  return property;
+}
+
+// Substitute every var() in a value; returns null if the value is invalid
+// (undefined variable without fallback, a reference cycle, or a
+// substitution over the length or lookup limits)
+export function substituteVars(
+  value: string,
+  props: Map<string, string>,
+  resolving: Set<string> = new Set()
+): string | null {
+  let resolved = resolvedProperties.get(props);
+  if (!resolved) {
+    resolved = new Map();
+    resolvedProperties.set(props, resolved);
+  }
+
+  return substitute(value, { props, resolving, resolved, steps: 0 }).value;
+}
+
+// Interpret a resolved token value as a color, including the bare channel
+// forms used by shadcn (`222 47% 11%`) and Tailwind (`59 130 246`)
+export function tokenValueToColor(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const hslChannels = /^(-?[\d.]+(?:deg)?)\s*,?\s+([\d.]+%)\s*,?\s+([\d.]+%)(\s*\/\s*[\d.]+%?)?$/i.exec(trimmed);
+  if (hslChannels) {
+    const rgb = parseColor(`hsl(${hslChannels[1]} ${hslChannels[2]} ${hslChannels[3]}${hslChannels[4] ?? ''})`);
+    return rgb ? rgbToHex(rgb) : null;
+  }
+
+  const rgbChannels = /^(\d{1,3})\s*,?\s+(\d{1,3})\s*,?\s+(\d{1,3})$/.exec(trimmed);
+  if (rgbChannels) {
+    const rgb = parseColor(`rgb(${rgbChannels.slice(1, 4).join(' ')})`);
+    return rgb && rgbChannels.slice(1, 4).every(c => Number(c) <= 255) ? rgbToHex(rgb) : null;
+  }
+
+  // Only accept values that are a single color, not e.g. a shadow or gradient
+  if (!/^(#[\da-f]+|[a-z]+|[a-z]+\([^()]*\))$/i.test(trimmed)) return null;
+
+  const rgb = parseColor(trimmed);
+  return rgb ? rgbToHex(rgb) : null;
+}
+
+// Resolve every custom property that ends up as a color
+export function resolveColorTokens(props: Map<string, string>): Record<string, string> {
+  const tokens: Record<string, string> = {};
+
+  for (const [name, value] of props) {
+    const resolved = substituteVars(value, props, new Set([name]));
+    if (resolved === null) continue;
+
+    const color = tokenValueToColor(resolved);
+    if (color) tokens[name] = color;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,167 @@
+// Colors a page declares outside its stylesheets: theme-color and tile-color
+// <meta> tags, the web app manifest, inline SVG paint and style="" attributes
+
+import { parseColor, rgbToHex } from '../../src/lib/color-utils';
+import type { ColorSource, DeclaredColor } from '../../src/lib/theme-generator';
+import { findColorsInValue, normalizeProperty } from './color-usage';
+import { extractInlineStyles, parseCSSRules } from './css-parser';
+import { findBaseUrl, parseAttributes } from './html';
+
+// SVG presentation attributes that paint a color
+const SVG_PAINT_ATTRIBUTES = ['fill', 'stroke', 'stop-color', 'flood-color', 'lighting-color'];
+
+const DARK_MEDIA = /prefers-color-scheme\s*:\s*dark/i;
+const LIGHT_MEDIA = /prefers-color-scheme\s*:\s*light/i;
+
+// Normalize a single declared color value; fully transparent values,
+// `none`, `currentColor` and paint server references don't count
+function declaredColor(value: string): string | null {
+  const rgb = parseColor(value.trim());
+  return rgb && rgb.a > 0 ? rgbToHex(rgb) : null;
+}
+
+// Count colors per source (and scheme), keeping first-seen order; entries
+// that are already counted add their count
+function tally(entries: (Omit<DeclaredColor, 'count'> & { count?: number })[]): DeclaredColor[] {
+  const counted = new Map<string, DeclaredColor>();
+
+  for (const entry of entries) {
+    const key = `${entry.source}|${entry.scheme ?? ''}|${entry.color}`;
+    const existing = counted.get(key);
+    if (existing) {
+      existing.count += entry.count ?? 1;
+    } else {
+      counted.set(key, { ...entry, count: entry.count ?? 1 });
+    }
+  }
+
+  return [...counted.values()];
+}
+
+// <meta name="theme-color"> (optionally scoped with a prefers-color-scheme
+// media attribute) and <meta name="msapplication-TileColor">
+function findMetaColors(html: string): Omit<DeclaredColor, 'count'>[] {
+  const found: Omit<DeclaredColor, 'count'>[] = [];
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const name = attributes.name?.toLowerCase();
+    const source: ColorSource | null = name === 'theme-color'
+      ? 'theme-color'
+      : name === 'msapplication-tilecolor' ? 'tile-color' : null;
+    if (!source) continue;
+
+    const color = declaredColor(attributes.content ?? '');
+    if (!color) continue;
+
+    const media = attributes.media ?? '';
+    const scheme = DARK_MEDIA.test(media) ? 'dark' : LIGHT_MEDIA.test(media) ? 'light' : undefined;
+    found.push({ color, source, ...(scheme && { scheme }) });
+  }
+
+  return found;
+}
+
+// Paint attributes and style="" fill/stroke on elements inside inline <svg>s
+function findSvgColors(svgMarkup: string[]): Omit<DeclaredColor, 'count'>[] {
+  const found: Omit<DeclaredColor, 'count'>[] = [];
+
+  for (const svg of svgMarkup) {
+    for (const [tag] of svg.matchAll(/<[a-z][\w-]*\b[^>]*>/gi)) {
+      const attributes = parseAttributes(tag);
+      const values = SVG_PAINT_ATTRIBUTES.map(name => attributes[name]).filter(Boolean);
+
+      if (attributes.style) {
+        for (const { property, value } of parseCSSRules(`svg { ${attributes.style} }`)[0]?.declarations ?? []) {
+          if (SVG_PAINT_ATTRIBUTES.includes(property)) values.push(value);
+        }
+      }
+
+      for (const value of values) {
+        const color = declaredColor(value);
+        if (color) found.push({ color, source: 'svg' });
+      }
+    }
+  }
+
+  return found;
+}
+
+// Color declarations in style="" attributes
+function findStyleAttributeColors(html: string): Omit<DeclaredColor, 'count'>[] {
+  const found: Omit<DeclaredColor, 'count'>[] = [];
+  const inline = extractInlineStyles(html);
+  if (!inline) return found;
+
+  for (const rule of parseCSSRules(inline)) {
+    for (const { property, value } of rule.declarations) {
+      // Unresolved var() references aren't declared colors
+      if (!normalizeProperty(property) || value.includes('var(')) continue;
+      for (const color of findColorsInValue(value)) {
+        found.push({ color, source: 'style-attribute' });
+      }
+    }
+  }
+
+  return found;
+}
+
+// Find the colors declared in a document's markup
+export function findDeclaredColors(html: string): DeclaredColor[] {
+  const svgMarkup = [...html.matchAll(/<svg\b[\s\S]*?<\/svg>/gi)].map(match => match[0]);
+  // SVG style attributes are counted as SVG paint, not twice
+  const withoutSvg = html.replace(/<svg\b[\s\S]*?<\/svg>/gi, '');
+
+  return tally([
+    ...findMetaColors(html),
+    ...findSvgColors(svgMarkup),
+    ...findStyleAttributeColors(withoutSvg),
+  ]);
+}
+
+// Combine the declared colors of several pages
+export function mergeDeclaredColors(pages: DeclaredColor[][]): DeclaredColor[] {
+  return tally(pages.flat());
+}
+
+// URL of the web app manifest linked from <link rel="manifest">
+export function findManifestUrl(html: string, pageUrl: string): string | null {
+  const baseUrl = findBaseUrl(html, pageUrl);
+
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const rel = (attributes.rel ?? '').toLowerCase().split(/\s+/);
+    if (!rel.includes('manifest') || !attributes.href) continue;
+
+    try {
+      const url = new URL(attributes.href.trim(), baseUrl);
+      return ['http:', 'https:'].includes(url.protocol) ? url.toString() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+// theme_color and background_color from a web app manifest
+export function parseManifestColors(text: string): DeclaredColor[] {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    return [];
+  }
+  if (typeof manifest !== 'object' || manifest === null) return [];
+
+  const { theme_color: themeColor, background_color: backgroundColor } = manifest as Record<string, unknown>;
+  const found: DeclaredColor[] = [];
+
+  const theme = typeof themeColor === 'string' && declaredColor(themeColor);
+  if (theme) found.push({ color: theme, source: 'manifest-theme-color', count: 1 });
+
+  const background = typeof backgroundColor === 'string' && declaredColor(backgroundColor);
+  if (background) found.push({ color: background, source: 'manifest-background-color', count: 1 });
+
+  return found;
+}
@@ -0,0 +1,115 @@
+// Tag, class, id and attribute counts for a fetched page, used to estimate
+// how many elements a CSS rule actually styles
+
+export interface ElementIndex {
+  total: number;
+  tags: Map<string, number>;
+  classes: Map<string, number>;
+  ids: Map<string, number>;
+  attributes: Map<string, number>;
+}
+
+function increment(map: Map<string, number>, key: string) {
+  map.set(key, (map.get(key) ?? 0) + 1);
+}
+
+// Count the elements in an HTML document by tag, class, id and attribute name
+export function buildElementIndex(html: string): ElementIndex {
+  const index: ElementIndex = { total: 0, tags: new Map(), classes: new Map(), ids: new Map(), attributes: new Map() };
+
+  // Markup inside comments, scripts and styles isn't rendered
+  const markup = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|template)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '<$1>');
+
+  for (const match of markup.matchAll(/<([a-z][\w-]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/gi)) {
+    index.total += 1;
+    increment(index.tags, match[1].toLowerCase());
+
+    for (const attribute of match[2].matchAll(/([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g)) {
+      const name = attribute[1].toLowerCase();
+      const value = attribute[2] ?? attribute[3] ?? attribute[4] ?? '';
+      increment(index.attributes, name);
+
+      if (name === 'class') {
+        new Set(value.split(/\s+/).filter(Boolean)).forEach(className => increment(index.classes, className));
+      } else if (name === 'id' && value) {
+        increment(index.ids, value);
+      }
+    }
+  }
+
+  return index;
+}
+
+// The character a hex escape stands for; per CSS Syntax, 0, surrogates and
+// anything past U+10FFFF become U+FFFD
+function escapedCodePoint(hex: string): string {
+  const code = parseInt(hex, 16);
+  const valid = code > 0 && code <= 0x10ffff && !(code >= 0xd800 && code <= 0xdfff);
+  return String.fromCodePoint(valid ? code : 0xfffd);
+}
+
+// Undo CSS escapes in an identifier (`.md\:flex` is the class `md:flex`)
+function unescapeIdentifier(identifier: string): string {
+  return identifier.replace(/\\([0-9a-f]{1,6}\s?|.)/gi, (_, escaped: string) =>
+    /^[0-9a-f]{1,6}\s?$/i.test(escaped) ? escapedCodePoint(escaped) : escaped
+  );
+}
+
+// Estimate the elements a compound selector (`button.btn.primary:hover`)
+// matches: at most as many as its rarest tag, class, id or attribute
+function countCompoundMatches(compound: string, index: ElementIndex): number {
+  // Pseudo-elements and state pseudo-classes don't narrow the estimate
+  const bare = compound.replace(/(?<!\\)::?[\w-]+(?:\([^)]*\))?/g, '');
+  if (/^:root\b/i.test(compound)) return 1;
+
+  const counts: number[] = [];
+  const tag = /^([a-z][\w-]*)/i.exec(bare)?.[1];
+  if (tag) counts.push(index.tags.get(tag.toLowerCase()) ?? 0);
+
+  for (const [, name] of bare.matchAll(/\.((?:\\.|[\w-])+)/g)) {
+    counts.push(index.classes.get(unescapeIdentifier(name)) ?? 0);
+  }
+  for (const [, name] of bare.matchAll(/#((?:\\.|[\w-])+)/g)) {
+    counts.push(index.ids.get(unescapeIdentifier(name)) ?? 0);
+  }
+  for (const [, name] of bare.matchAll(/\[\s*([\w-]+)/g)) {
+    counts.push(index.attributes.get(name.toLowerCase()) ?? 0);
+  }
+
+  // A bare `*` (or only pseudo-classes) matches everything
+  return counts.length > 0 ? Math.min(...counts) : index.total;
+}
+
+// Estimate the elements a selector list matches, judged by the subject
+// (last compound) of each selector
+export function countSelectorMatches(selector: string, index: ElementIndex): number {
+  let matches = 0;
+
+  for (const part of selector.split(',')) {
+    const compounds = part.trim().split(/\s*[\s>+~]\s*/).filter(Boolean);
+    const subject = compounds[compounds.length - 1];
+    if (subject && !subject.startsWith('@')) {
+      matches += countCompoundMatches(subject, index);
+    }
+  }
+
+  return Math.min(matches, index.total);
+}
+
+// Combine the indexes of several pages, as if they were one document
+export function mergeElementIndexes(indexes: ElementIndex[]): ElementIndex {
+  const merged: ElementIndex = { total: 0, tags: new Map(), classes: new Map(), ids: new Map(), attributes: new Map() };
+
+  for (const index of indexes) {
+    merged.total += index.total;
+    for (const key of ['tags', 'classes', 'ids', 'attributes'] as const) {
+      for (const [name, count] of index[key]) {
+        merged[key].set(name, (merged[key].get(name) ?? 0) + count);
+      }
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,153 @@
+// Color extraction from a page's HTML and stylesheets
+
+import { findCSSColors } from '../../src/lib/color-parser';
+import { parseColor, rgbToHex } from '../../src/lib/color-utils';
+import type { DetectedFramework } from '../../src/lib/frameworks';
+import type { ColorUsage, DeclaredColor } from '../../src/lib/theme-generator';
+import type { CSSRule } from './css-parser';
+import { collectCustomProperties, overrideCustomProperties, resolveColorTokens } from './custom-properties';
+import { collectColorUsage } from './color-usage';
+import { rulesUsingCustomProperties, splitByColorScheme } from './color-scheme';
+import type { ElementIndex } from './element-index';
+import { detectFramework } from './frameworks';
+
+export interface ColorSet {
+  colors: string[];
+  tokens: Record<string, string>;
+  usage: ColorUsage[];
+  // How strongly each color (by hex) features in this scheme
+  weights?: Record<string, number>;
+}
+
+export interface ExtractedColors extends ColorSet {
+  // The site's own dark palette, when it ships one
+  dark?: ColorSet;
+  // Colors declared by meta tags, the manifest, SVG and style attributes
+  declared: DeclaredColor[];
+  // How strongly each color (by hex) features on the page, across schemes
+  weights: Record<string, number>;
+  // UI framework whose variables define the theme roles, if recognized
+  framework?: DetectedFramework;
+}
+
+export interface ExtractColorsOptions {
+  declared?: DeclaredColor[];
+  // Elements of the page the stylesheets belong to, for usage weighting
+  elements?: ElementIndex;
+  // CSS of third-party stylesheets that are kept but count for less
+  downweightedCSS?: string;
+}
+
+// Share of its weight a color keeps when only down-weighted third-party
+// stylesheets use it
+const DOWNWEIGHTED_SHARE = 0.25;
+
+// Normalize a color string so the same color written two ways compares equal
+function colorKey(color: string): string | null {
+  const rgb = parseColor(color);
+  return rgb ? rgbToHex(rgb) : null;
+}
+
+// Weigh each color by how often it is written (in the page text and in
+// declarations outside the CSS) plus how many elements the rules using it
+// match, taking the busier scheme for colors used in both. Colors only
+// down-weighted stylesheets write keep a share of that, rounded up.
+function weighColors(
+  written: string[],
+  downweighted: string[],
+  declared: DeclaredColor[],
+  usageBySchemes: ColorUsage[][]
+): Record<string, number> {
+  const weights: Record<string, number> = {};
+  const add = (key: string | null, amount: number) => {
+    if (key) weights[key] = (weights[key] ?? 0) + amount;
+  };
+
+  [...written, ...downweighted].forEach(color => add(colorKey(color), 1));
+  declared.forEach(entry => add(entry.color, entry.count));
+
+  const elements: Record<string, number> = {};
+  for (const usage of usageBySchemes) {
+    for (const entry of usage) {
+      elements[entry.color] = Math.max(elements[entry.color] ?? 0, entry.elements ?? 0);
+    }
+  }
+  Object.entries(elements).forEach(([color, count]) => add(color, count));
+
+  const own = new Set([...written, ...declared.map(entry => entry.color)].map(colorKey));
+  for (const key of new Set(downweighted.map(colorKey))) {
+    if (key && !own.has(key) && weights[key] !== undefined) {
+      weights[key] = Math.ceil(weights[key] * DOWNWEIGHTED_SHARE);
+    }
+  }
+
+  return weights;
+}
+
+// Weigh each dark palette color by the declarations writing it in dark mode
+// plus the elements their rules match
+function weighDarkColors(usage: ColorUsage[]): Record<string, number> {
+  return Object.fromEntries(usage.map(entry => [entry.color, entry.count + (entry.elements ?? 0)]));
+}
+
+// Extract light-scope colors, design tokens and usage, plus a separate dark
+// palette from `prefers-color-scheme: dark` / `.dark`-style scopes.
+// Declared colors join the light palette unless scoped to dark mode.
+export function extractColors(
+  documentText: string,
+  rules: CSSRule[],
+  options: ExtractColorsOptions = {}
+): ExtractedColors {
+  const { declared = [], elements, downweightedCSS = '' } = options;
+  const { light: lightRules, dark: darkRules } = splitByColorScheme(rules);
+
+  // Resolve custom properties (design tokens) for each scheme
+  const lightProps = collectCustomProperties(lightRules);
+  const darkProps = overrideCustomProperties(lightProps, darkRules);
+  const tokens = resolveColorTokens(lightProps);
+
+  // Attribute colors to the properties and selectors they style
+  const usage = collectColorUsage(lightRules, lightProps, elements);
+
+  // Colors that only ever appear in dark-scoped declarations or tokens
+  const darkRuleUsage = collectColorUsage(darkRules, darkProps, elements);
+  const darkTokens = resolveColorTokens(darkProps);
+  const lightKeys = new Set([...usage.map(u => u.color), ...Object.values(tokens)]);
+  const darkOnlyKeys = new Set(
+    [...darkRuleUsage.map(u => u.color), ...Object.values(darkTokens)].filter(color => !lightKeys.has(color))
+  );
+
+  // Colors found anywhere in the page text, minus the dark-only ones
+  const declaredLight = declared.filter(entry => entry.scheme !== 'dark').map(entry => entry.color);
+  const written = findCSSColors(documentText);
+  const downweighted = findCSSColors(downweightedCSS);
+  const colors = [...written, ...downweighted, ...Object.values(tokens)]
+    .filter(color => !darkOnlyKeys.has(colorKey(color) ?? ''))
+    .concat(declaredLight);
+
+  const result: ExtractedColors = {
+    colors: [...new Set(colors.map(c => c.toLowerCase()))],
+    tokens,
+    usage,
+    declared,
+    weights: {},
+  };
+
+  // Only report a dark palette when dark scopes actually change colors
+  const changesTokens = Object.entries(darkTokens).some(([name, color]) => tokens[name] !== color);
+
+  if (darkRuleUsage.length > 0 || changesTokens) {
+    // In dark mode, token-based declarations resolve against the dark tokens
+    const darkUsage = collectColorUsage([...rulesUsingCustomProperties(lightRules), ...darkRules], darkProps, elements);
+    const darkColors = [...new Set([...darkUsage.map(u => u.color), ...Object.values(darkTokens)])];
+
+    result.dark = { colors: darkColors, tokens: darkTokens, usage: darkUsage, weights: weighDarkColors(darkUsage) };
+  }
+
+  result.weights = weighColors(written, downweighted, declared, [usage, result.dark?.usage ?? darkRuleUsage]);
+
+  const framework = detectFramework(lightProps, result.dark ? darkProps : null);
+  if (framework) result.framework = framework;
+
+  return result;
+}
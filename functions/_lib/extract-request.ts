@@ -0,0 +1,268 @@
+// Running an extraction for a URL (cached) or for posted HTML/CSS
+
+import type { CrawlOptions, ExtractProgress, ExtractResponse, ThirdPartyMode } from '../../src/lib/api-schema';
+import { findCSSColors } from '../../src/lib/color-parser';
+import type { DeclaredColor } from '../../src/lib/theme-generator';
+import { type Env, allowsPrivateHosts } from './api';
+import {
+  type CacheEntry,
+  type CacheStatus,
+  createKVStore,
+  createMemoryStore,
+  isFresh,
+  normalizeCacheUrl,
+  readCacheEntry,
+  revalidationHeaders,
+  writeCacheEntry,
+} from './cache';
+import { type FetchPage, crawlSite } from './crawl';
+import { parseCSSRules } from './css-parser';
+import { findDeclaredColors, findManifestUrl, mergeDeclaredColors, parseManifestColors } from './declared-colors';
+import { buildElementIndex, mergeElementIndexes } from './element-index';
+import { extractColors } from './extract-colors';
+import { collectProvenance } from './provenance';
+import { MANIFEST_FETCH_OPTIONS, PAGE_FETCH_OPTIONS, STYLESHEET_FETCH_OPTIONS, safeFetch, validateUrl } from './safe-fetch';
+import { extractShapeTokens } from './shape-tokens';
+import { classifyStylesheet, stylesheetHandling } from './stylesheet-sources';
+import { type FetchText, DEFAULT_STYLESHEET_BUDGET, discoverStylesheets } from './stylesheets';
+import { extractTypography } from './typography';
+
+// Stand-in for the result cache KV namespace in local runs
+const memoryCache = createMemoryStore();
+
+// Fetch the page's web app manifest for its declared colors; a missing or
+// broken manifest just contributes none
+async function fetchManifestColors(html: string, pageUrl: string, allowPrivateHosts: boolean): Promise<DeclaredColor[]> {
+  const manifestUrl = findManifestUrl(html, pageUrl);
+  if (!manifestUrl) return [];
+
+  try {
+    const manifest = await safeFetch(manifestUrl, { ...MANIFEST_FETCH_OPTIONS, allowPrivateHosts });
+    return parseManifestColors(manifest.text);
+  } catch {
+    return [];
+  }
+}
+
+// Stylesheets fetched for one extraction, however many pages it covers,
+// so a crawl makes no more stylesheet requests than a single page
+const MAX_STYLESHEET_FETCHES = DEFAULT_STYLESHEET_BUDGET.maxStylesheets;
+
+export interface DocumentOptions {
+  // CSS supplied alongside the (first) page
+  css?: string[];
+  thirdParty?: ThirdPartyMode;
+  // Record where each color was written
+  debug?: boolean;
+  // Told about each page and stylesheet fetched, for streamed progress
+  onProgress?: (progress: ExtractProgress) => void;
+  // Fetch private and loopback hosts too (local development only)
+  allowPrivateHosts?: boolean;
+}
+
+// Extract colors from one or more pages of a site (fetched or posted) and
+// the stylesheets they use, plus any CSS supplied with the first. Pages
+// are merged as if they were one: a stylesheet they share counts once,
+// and its rules are weighted by the elements they match on every page.
+export async function extractFromDocuments(
+  pages: { url: string; html: string }[],
+  options: DocumentOptions = {}
+): Promise<ExtractResponse> {
+  const { css = [], thirdParty = 'auto', debug = false, onProgress, allowPrivateHosts = false } = options;
+
+  // Distinct colors written in what has been fetched so far, counted only
+  // when progress is reported
+  const written = new Set<string>();
+  const countColors = (text: string) => {
+    for (const color of findCSSColors(text)) written.add(color.toLowerCase());
+    return written.size;
+  };
+  if (onProgress) [...pages.map(page => page.html), ...css].forEach(countColors);
+
+  // Fetch linked stylesheets (and their @imports) alongside the pages'
+  // own <style> blocks and style="" attributes; each goes through the
+  // same checks, and one that fails is skipped. A stylesheet several
+  // pages link to is fetched once.
+  const fetched = new Map<string, Promise<{ url: string; text: string } | null>>();
+  const fetchStylesheet: FetchText = (cssUrl, signal) => {
+    let pending = fetched.get(cssUrl);
+    if (!pending) {
+      if (fetched.size >= MAX_STYLESHEET_FETCHES) return Promise.resolve(null);
+      pending = safeFetch(cssUrl, { ...STYLESHEET_FETCH_OPTIONS, signal, allowPrivateHosts })
+        .catch(() => null)
+        .then(sheet => {
+          onProgress?.({ step: 'stylesheet', url: cssUrl, ok: !!sheet, colors: sheet ? countColors(sheet.text) : written.size });
+          return sheet;
+        });
+      fetched.set(cssUrl, pending);
+    }
+    return pending;
+  };
+  const [pageSheets, manifestColors] = await Promise.all([
+    Promise.all(pages.map((page, index) =>
+      discoverStylesheets(page.html, page.url, fetchStylesheet, undefined, index === 0 ? css : [], urls =>
+        onProgress?.({ step: 'stylesheets', urls })
+      )
+    )),
+    fetchManifestColors(pages[0].html, pages[0].url, allowPrivateHosts),
+  ]);
+  const declared = mergeDeclaredColors([...pages.map(page => findDeclaredColors(page.html)), manifestColors]);
+
+  // Linked sheets are the same sheet wherever they're used; inline ones are
+  // only the same when their CSS is (e.g. a layout's critical styles)
+  const seenSheets = new Set<string>();
+  const stylesheets = pageSheets.flat().filter(sheet => {
+    const key = sheet.inline ? `inline:${sheet.css}` : sheet.url;
+    if (seenSheets.has(key)) return false;
+    seenSheets.add(key);
+    return true;
+  });
+
+  // Tag each sheet first- or third-party and decide what its colors count for
+  const sheets = stylesheets.map(sheet => {
+    const source = classifyStylesheet(sheet.url, pages[0].url, sheet.inline);
+    return { ...sheet, source, handling: stylesheetHandling(source, thirdParty), rules: parseCSSRules(sheet.css) };
+  });
+  const external = sheets.filter(sheet => !sheet.inline);
+  const used = sheets.filter(sheet => sheet.handling !== 'excluded');
+
+  // Extract colors and shape from the sheets that are used, and fonts from
+  // those plus the web font services that load them
+  const rules = used.flatMap(sheet => sheet.rules);
+  const elements = mergeElementIndexes(pages.map(page => buildElementIndex(page.html)));
+  const combinedCSS = [
+    ...pages.map(page => page.html),
+    ...css,
+    ...external.filter(sheet => sheet.handling === 'included').map(sheet => sheet.css),
+  ].join('\n');
+  const downweightedCSS = external.filter(sheet => sheet.handling === 'downweighted').map(sheet => sheet.css).join('\n');
+  const extracted = extractColors(combinedCSS, rules, { declared, elements, downweightedCSS });
+  onProgress?.({ step: 'extracted', colors: extracted.colors.length });
+  const fontSheets = sheets.filter(sheet => sheet.handling !== 'excluded' || sheet.source.vendor?.category === 'fonts');
+
+  return {
+    ...extracted,
+    typography: extractTypography(fontSheets),
+    shape: extractShapeTokens(rules, elements),
+    css: downweightedCSS ? `${combinedCSS}\n${downweightedCSS}` : combinedCSS,
+    stylesheets: external.map(sheet => sheet.url),
+    thirdParty: external
+      .filter(sheet => sheet.source.party === 'third')
+      .map(sheet => ({ url: sheet.url, vendor: sheet.source.vendor?.name ?? null, handling: sheet.handling })),
+    ...(debug && { provenance: collectProvenance(used) }),
+  };
+}
+
+// Extract colors from a single page (fetched or posted)
+export function extractFromDocument(html: string, pageUrl: string, options: DocumentOptions = {}): Promise<ExtractResponse> {
+  return extractFromDocuments([{ url: pageUrl, html }], options);
+}
+
+// Crawl the site from a fetched start page and extract its pages together.
+// Other pages get the same checks and limits as the start page; one that
+// fails is left out.
+async function extractFromSite(
+  html: string,
+  pageUrl: string,
+  crawl: CrawlOptions,
+  options: DocumentOptions
+): Promise<ExtractResponse> {
+  const fetchPage: FetchPage = async (url, signal) => {
+    const page = await safeFetch(url, { ...PAGE_FETCH_OPTIONS, signal, allowPrivateHosts: options.allowPrivateHosts })
+      .catch(() => null);
+    if (page) options.onProgress?.({ step: 'page', url: page.url });
+    return page;
+  };
+  const pages = await crawlSite({ url: pageUrl, html }, crawl, fetchPage);
+
+  return {
+    ...(await extractFromDocuments(pages, options)),
+    pages: pages.map(page => ({ url: page.url, depth: page.depth })),
+  };
+}
+
+// Fetch and extract a URL, or a crawl starting from it, serving fresh
+// results from the cache and revalidating stale ones with the validators
+// upstream gave us last time
+export async function extractFromUrl(
+  targetUrl: string,
+  env: Env,
+  options: {
+    bypassCache: boolean;
+    crawl?: CrawlOptions;
+    thirdParty?: ThirdPartyMode;
+    debug?: boolean;
+    onProgress?: (progress: ExtractProgress) => void;
+    waitUntil: (promise: Promise<unknown>) => void;
+  }
+): Promise<{ result: ExtractResponse; cacheStatus: CacheStatus; ageSeconds: number }> {
+  const crawl = options.crawl && options.crawl.pages > 1 ? options.crawl : null;
+  const thirdParty = options.thirdParty ?? 'auto';
+  const debug = options.debug ?? false;
+  const { onProgress } = options;
+  const allowPrivateHosts = allowsPrivateHosts(env);
+
+  // Crawls, third-party and debug options change the result, so each
+  // combination is cached separately
+  const variant = [
+    crawl && `crawl:${crawl.pages}:${crawl.depth}`,
+    thirdParty !== 'auto' && `thirdParty:${thirdParty}`,
+    debug && 'debug',
+  ].filter(Boolean);
+  const cacheUrl = normalizeCacheUrl(validateUrl(targetUrl, undefined, allowPrivateHosts).toString());
+  const cacheKey = ['extract', ...variant, cacheUrl].join(':');
+  const store = env.EXTRACT_CACHE ? createKVStore(env.EXTRACT_CACHE) : memoryCache;
+  const cached = options.bypassCache ? null : await readCacheEntry<ExtractResponse>(store, cacheKey);
+
+  let entry: CacheEntry<ExtractResponse>;
+  let cacheStatus: CacheStatus = options.bypassCache ? 'BYPASS' : 'MISS';
+
+  if (cached && isFresh(cached)) {
+    entry = cached;
+    cacheStatus = 'HIT';
+  } else {
+    // Fetch the page, rejecting private hosts, redirects to them, oversized
+    // bodies and non-HTML responses. An unchanged start page says nothing
+    // about the rest of the site, so crawls aren't revalidated.
+    const conditionalHeaders = !crawl && cached && revalidationHeaders(cached);
+    const page = await safeFetch(targetUrl, {
+      ...PAGE_FETCH_OPTIONS,
+      headers: conditionalHeaders || undefined,
+      allowPrivateHosts,
+    });
+    onProgress?.({ step: 'page', url: page.url });
+
+    if (cached && page.notModified) {
+      entry = {
+        ...cached,
+        storedAt: Date.now(),
+        etag: page.etag ?? cached.etag,
+        lastModified: page.lastModified ?? cached.lastModified,
+      };
+      cacheStatus = 'REVALIDATED';
+    } else {
+      entry = {
+        value: crawl
+          ? await extractFromSite(page.text, page.url, crawl, { thirdParty, debug, onProgress, allowPrivateHosts })
+          : await extractFromDocument(page.text, page.url, { thirdParty, debug, onProgress, allowPrivateHosts }),
+        storedAt: Date.now(),
+        etag: page.etag,
+        lastModified: page.lastModified,
+      };
+    }
+
+    options.waitUntil(writeCacheEntry(store, cacheKey, entry));
+  }
+
+  return {
+    result: entry.value,
+    cacheStatus,
+    ageSeconds: Math.floor((Date.now() - entry.storedAt) / 1000),
+  };
+}
+
+// Base URL for resolving a posted document's relative links; without one,
+// only absolute stylesheet URLs are followed
+export function postedPageUrl(url: string | null, allowPrivateHosts = false): string {
+  return url ? validateUrl(url, undefined, allowPrivateHosts).toString() : 'about:blank';
+}
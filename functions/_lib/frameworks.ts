@@ -0,0 +1,218 @@
+// Detection of UI frameworks from their theme variables, and the
+// deterministic mapping of those variables onto theme roles
+
+import type { DetectedFramework, FrameworkId, RoleColors } from '../../src/lib/frameworks';
+import { type ThemeColors, ROLE_TOKEN_NAMES } from '../../src/lib/theme-generator';
+import { substituteVars, tokenValueToColor } from './custom-properties';
+
+interface FrameworkSignature {
+  id: FrameworkId;
+  // Detected when at least `minMarkers` declared properties match these
+  markers: RegExp;
+  minMarkers: number;
+  // Variables each role is read from, the first that resolves winning
+  roles: Partial<Record<keyof ThemeColors, string[]>>;
+  // Variables may hold bare oklch channels (daisyUI 4: `49% 0.3 275`)
+  oklchChannels?: boolean;
+}
+
+const roleNames = Object.keys(ROLE_TOKEN_NAMES) as (keyof ThemeColors)[];
+
+// Role variables named after the shadcn roles, optionally prefixed
+function shadcnRoles(prefix: string): FrameworkSignature['roles'] {
+  return Object.fromEntries(roleNames.map(role => [role, [`--${prefix}${ROLE_TOKEN_NAMES[role].slice(2)}`]]));
+}
+
+// Checked in order: frameworks that build on another (daisyUI on
+// Tailwind, shadcn on Tailwind) come before it
+const SIGNATURES: FrameworkSignature[] = [
+  {
+    id: 'shadcn',
+    markers: /^--(?:primary|secondary|card|popover|muted|accent|destructive)-foreground$/,
+    minMarkers: 4,
+    roles: shadcnRoles(''),
+  },
+  {
+    id: 'daisyui',
+    markers: /^--(?:color-base-100|color-base-content|color-primary-content|b1|bc|pc)$/,
+    minMarkers: 3,
+    oklchChannels: true,
+    roles: {
+      background: ['--color-base-100', '--b1'],
+      foreground: ['--color-base-content', '--bc'],
+      card: ['--color-base-100', '--b1'],
+      cardForeground: ['--color-base-content', '--bc'],
+      popover: ['--color-base-100', '--b1'],
+      popoverForeground: ['--color-base-content', '--bc'],
+      primary: ['--color-primary', '--p'],
+      primaryForeground: ['--color-primary-content', '--pc'],
+      secondary: ['--color-base-200', '--b2'],
+      secondaryForeground: ['--color-base-content', '--bc'],
+      muted: ['--color-base-200', '--b2'],
+      accent: ['--color-base-300', '--b3'],
+      accentForeground: ['--color-base-content', '--bc'],
+      destructive: ['--color-error', '--er'],
+      destructiveForeground: ['--color-error-content', '--erc'],
+      border: ['--color-base-300', '--b3'],
+      input: ['--color-base-300', '--b3'],
+      ring: ['--color-primary', '--p'],
+    },
+  },
+  {
+    id: 'radix',
+    markers: /^--(?:accent-9|accent-contrast|gray-12|color-panel-solid)$/,
+    minMarkers: 3,
+    roles: {
+      background: ['--color-background', '--gray-1'],
+      foreground: ['--gray-12'],
+      card: ['--color-panel-solid', '--color-background'],
+      cardForeground: ['--gray-12'],
+      popover: ['--color-panel-solid', '--color-background'],
+      popoverForeground: ['--gray-12'],
+      primary: ['--accent-9'],
+      primaryForeground: ['--accent-contrast'],
+      secondary: ['--gray-3'],
+      secondaryForeground: ['--gray-12'],
+      muted: ['--gray-3'],
+      mutedForeground: ['--gray-11'],
+      accent: ['--accent-3'],
+      accentForeground: ['--accent-11'],
+      destructive: ['--red-9'],
+      border: ['--gray-6'],
+      input: ['--gray-7'],
+      ring: ['--focus-8', '--accent-8'],
+    },
+  },
+  {
+    id: 'mui',
+    markers: /^--mui-palette-/,
+    minMarkers: 3,
+    roles: {
+      background: ['--mui-palette-background-default'],
+      foreground: ['--mui-palette-text-primary'],
+      card: ['--mui-palette-background-paper'],
+      cardForeground: ['--mui-palette-text-primary'],
+      popover: ['--mui-palette-background-paper'],
+      popoverForeground: ['--mui-palette-text-primary'],
+      primary: ['--mui-palette-primary-main'],
+      primaryForeground: ['--mui-palette-primary-contrastText'],
+      mutedForeground: ['--mui-palette-text-secondary'],
+      destructive: ['--mui-palette-error-main'],
+      destructiveForeground: ['--mui-palette-error-contrastText'],
+      border: ['--mui-palette-divider'],
+      input: ['--mui-palette-divider'],
+      ring: ['--mui-palette-primary-main'],
+    },
+  },
+  {
+    // Chakra 3 semantic tokens, then Chakra 2 names
+    id: 'chakra',
+    markers: /^--chakra-colors-/,
+    minMarkers: 3,
+    roles: {
+      background: ['--chakra-colors-bg', '--chakra-colors-chakra-body-bg'],
+      foreground: ['--chakra-colors-fg', '--chakra-colors-chakra-body-text'],
+      card: ['--chakra-colors-bg-panel', '--chakra-colors-chakra-body-bg'],
+      cardForeground: ['--chakra-colors-fg', '--chakra-colors-chakra-body-text'],
+      popover: ['--chakra-colors-bg-panel', '--chakra-colors-chakra-body-bg'],
+      popoverForeground: ['--chakra-colors-fg', '--chakra-colors-chakra-body-text'],
+      primary: ['--chakra-colors-color-palette-solid', '--chakra-colors-brand-500', '--chakra-colors-primary-500'],
+      primaryForeground: ['--chakra-colors-color-palette-contrast'],
+      secondary: ['--chakra-colors-bg-muted'],
+      muted: ['--chakra-colors-bg-muted'],
+      mutedForeground: ['--chakra-colors-fg-muted', '--chakra-colors-chakra-placeholder-color'],
+      accent: ['--chakra-colors-bg-subtle'],
+      destructive: ['--chakra-colors-fg-error', '--chakra-colors-red-500'],
+      border: ['--chakra-colors-border', '--chakra-colors-chakra-border-color'],
+      input: ['--chakra-colors-border', '--chakra-colors-chakra-border-color'],
+      ring: ['--chakra-colors-color-palette-focus-ring', '--chakra-colors-focus-ring'],
+    },
+  },
+  {
+    id: 'bootstrap',
+    markers: /^--bs-(?:primary|secondary|body-bg|body-color|border-color|danger)$/,
+    minMarkers: 3,
+    roles: {
+      background: ['--bs-body-bg'],
+      foreground: ['--bs-body-color', '--bs-emphasis-color'],
+      card: ['--bs-card-bg', '--bs-body-bg'],
+      cardForeground: ['--bs-card-color', '--bs-body-color'],
+      popover: ['--bs-dropdown-bg', '--bs-body-bg'],
+      popoverForeground: ['--bs-dropdown-color', '--bs-body-color'],
+      primary: ['--bs-primary'],
+      secondary: ['--bs-secondary-bg'],
+      secondaryForeground: ['--bs-body-color'],
+      muted: ['--bs-tertiary-bg', '--bs-secondary-bg'],
+      mutedForeground: ['--bs-secondary-color', '--bs-secondary'],
+      accent: ['--bs-tertiary-bg'],
+      destructive: ['--bs-danger'],
+      border: ['--bs-border-color'],
+      input: ['--bs-border-color'],
+      ring: ['--bs-focus-ring-color', '--bs-primary'],
+    },
+  },
+  {
+    // Tailwind itself has no roles, but projects often add semantic
+    // `--color-*` theme variables named after them
+    id: 'tailwind',
+    markers: /^--(?:tw-[\w-]+|color-[a-z]+-\d{2,3})$/,
+    minMarkers: 3,
+    roles: shadcnRoles('color-'),
+  },
+];
+
+// Resolve one of a framework's variables to a hex color
+function readColor(name: string, props: Map<string, string>, oklchChannels: boolean): string | null {
+  const value = props.get(name);
+  if (value === undefined) return null;
+
+  const resolved = substituteVars(value, props, new Set([name]));
+  if (!resolved) return null;
+
+  return tokenValueToColor(resolved) ??
+    (oklchChannels && /^[\d.]+%?\s+[\d.]+\s+[\d.]+$/.test(resolved.trim()) ? tokenValueToColor(`oklch(${resolved.trim()})`) : null);
+}
+
+function readRoles(signature: FrameworkSignature, props: Map<string, string>): RoleColors {
+  const colors: RoleColors = {};
+
+  for (const role of roleNames) {
+    for (const name of signature.roles[role] ?? []) {
+      const color = readColor(name, props, !!signature.oklchChannels);
+      if (color) {
+        colors[role] = color;
+        break;
+      }
+    }
+  }
+
+  return colors;
+}
+
+// Find the first framework whose variables the site declares and read its
+// role colors. Dark roles are only those the dark scheme changes.
+export function detectFramework(
+  lightProps: Map<string, string>,
+  darkProps: Map<string, string> | null
+): DetectedFramework | null {
+  const names = new Set([...lightProps.keys(), ...(darkProps?.keys() ?? [])]);
+
+  for (const signature of SIGNATURES) {
+    const markers = [...names].filter(name => signature.markers.test(name)).length;
+    if (markers < signature.minMarkers) continue;
+
+    const light = readRoles(signature, lightProps);
+    const detected: DetectedFramework = { id: signature.id, light };
+
+    if (darkProps) {
+      const dark = Object.fromEntries(
+        Object.entries(readRoles(signature, darkProps)).filter(([role, color]) => light[role as keyof ThemeColors] !== color)
+      ) as RoleColors;
+      if (Object.keys(dark).length > 0) detected.dark = dark;
+    }
+
+    return detected;
+  }
+
+  return null;
+}
@@ -0,0 +1,48 @@
+// Minimal HTML tag helpers for the extract function
+
+// The character a numeric reference stands for; like browsers, 0,
+// surrogates and anything past U+10FFFF decode to U+FFFD
+function decodeCodePoint(code: number): string {
+  const valid = code > 0 && code <= 0x10ffff && !(code >= 0xd800 && code <= 0xdfff);
+  return String.fromCodePoint(valid ? code : 0xfffd);
+}
+
+// Decode the character references that show up in attribute values
+export function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => decodeCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => decodeCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+// Parse the attributes of an opening tag (`<link rel=stylesheet href="...">`)
+// in any order; names are lowercased, valueless attributes map to ''
+export function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const body = tag.replace(/^<\s*[\w-]+/, '').replace(/\/?>$/, '');
+
+  for (const match of body.matchAll(/([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g)) {
+    const name = match[1].toLowerCase();
+    if (name in attributes) continue;
+    attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+
+  return attributes;
+}
+
+// Resolve the document base URL, honouring <base href>
+export function findBaseUrl(html: string, pageUrl: string): string {
+  const tag = html.match(/<base\b[^>]*>/i)?.[0];
+  const href = tag && parseAttributes(tag).href;
+  if (!href) return pageUrl;
+
+  try {
+    return new URL(href, pageUrl).toString();
+  } catch {
+    return pageUrl;
+  }
+}
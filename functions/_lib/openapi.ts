@@ -0,0 +1,420 @@
+// OpenAPI 3.1 description of the API, built from the shared schema so the
+// codes, formats and options can't drift from what the functions accept
+
+import {
+  API_VERSION,
+  COLOR_SOURCES,
+  CONTRAST_OPTIONS,
+  ERROR_CODES,
+  ERROR_STATUS,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+  STYLESHEET_HANDLINGS,
+  THIRD_PARTY_MODES,
+} from '../../src/lib/api-schema';
+import { FRAMEWORK_IDS } from '../../src/lib/frameworks';
+import { THEME_FORMATS } from '../../src/lib/theme-formats';
+
+const colorUsage = {
+  type: 'object',
+  required: ['color', 'count', 'properties', 'selectors'],
+  properties: {
+    color: { type: 'string', description: 'Hex color' },
+    count: { type: 'integer' },
+    elements: { type: 'integer', description: 'Page elements matched by the rules that set it' },
+    properties: { type: 'array', items: { type: 'string' } },
+    selectors: { type: 'array', items: { type: 'string', enum: ['root', 'button', 'link', 'heading', 'input'] } },
+  },
+};
+
+const declaredColor = {
+  type: 'object',
+  required: ['color', 'source', 'count'],
+  properties: {
+    color: { type: 'string', description: 'Hex color' },
+    source: { type: 'string', enum: COLOR_SOURCES },
+    count: { type: 'integer' },
+    scheme: { type: 'string', enum: ['light', 'dark'], description: 'Color scheme a theme-color meta tag is limited to' },
+  },
+};
+
+const fontStyle = {
+  type: ['object', 'null'],
+  required: ['stack', 'family', 'weight', 'size'],
+  properties: {
+    stack: { type: 'string' },
+    family: { type: 'string' },
+    weight: { type: ['integer', 'null'] },
+    size: { type: ['string', 'null'] },
+  },
+};
+
+const typography = {
+  type: 'object',
+  required: ['body', 'heading', 'mono', 'imports', 'fontFaces'],
+  properties: {
+    body: { $ref: '#/components/schemas/FontStyle' },
+    heading: { $ref: '#/components/schemas/FontStyle' },
+    mono: { $ref: '#/components/schemas/FontStyle' },
+    imports: { type: 'array', items: { type: 'string' }, description: 'Web font stylesheet URLs' },
+    fontFaces: { type: 'array', items: { type: 'string' }, description: 'Self-hosted @font-face families' },
+  },
+};
+
+const nullableString = { type: ['string', 'null'] };
+
+const shapeTokens = {
+  type: 'object',
+  required: ['radius', 'shadows', 'spacing'],
+  properties: {
+    radius: { ...nullableString, description: 'shadcn --radius' },
+    shadows: {
+      type: 'object',
+      required: ['sm', 'md', 'lg'],
+      properties: { sm: nullableString, md: nullableString, lg: nullableString },
+    },
+    spacing: { ...nullableString, description: 'Base spacing unit (Tailwind --spacing)' },
+  },
+};
+
+const roleColors = {
+  type: 'object',
+  additionalProperties: { type: 'string' },
+  description: 'Theme role (primary, background...) to hex',
+};
+
+const detectedFramework = {
+  type: 'object',
+  required: ['id', 'light'],
+  properties: {
+    id: { type: 'string', enum: FRAMEWORK_IDS },
+    light: roleColors,
+    dark: { ...roleColors, description: 'Roles the dark scheme changes' },
+  },
+};
+
+const crawledPage = {
+  type: 'object',
+  required: ['url', 'depth'],
+  properties: {
+    url: { type: 'string' },
+    depth: { type: 'integer', description: 'Links followed from the start page' },
+  },
+};
+
+const thirdPartyStylesheet = {
+  type: 'object',
+  required: ['url', 'vendor', 'handling'],
+  properties: {
+    url: { type: 'string' },
+    vendor: { ...nullableString, description: 'Known vendor the stylesheet belongs to' },
+    handling: { type: 'string', enum: STYLESHEET_HANDLINGS },
+  },
+};
+
+const colorOrigin = {
+  type: 'object',
+  required: ['url', 'line', 'column', 'selector', 'property'],
+  properties: {
+    url: { type: 'string', description: 'Stylesheet URL, or the page URL for inline CSS' },
+    line: { type: ['integer', 'null'] },
+    column: { type: ['integer', 'null'] },
+    selector: { type: 'string' },
+    property: { type: 'string' },
+  },
+};
+
+const extractProgress = {
+  type: 'object',
+  required: ['step'],
+  properties: {
+    step: { type: 'string', enum: ['page', 'stylesheets', 'stylesheet', 'extracted'] },
+    url: { type: 'string', description: 'page, stylesheet: what was fetched' },
+    urls: { type: 'array', items: { type: 'string' }, description: 'stylesheets: found, about to be fetched' },
+    ok: { type: 'boolean', description: 'stylesheet: whether it could be fetched' },
+    colors: { type: 'integer', description: 'stylesheet: distinct colors written so far; extracted: colors found' },
+  },
+};
+
+const colorSet = {
+  type: 'object',
+  required: ['colors', 'tokens', 'usage'],
+  properties: {
+    colors: { type: 'array', items: { type: 'string' } },
+    tokens: { type: 'object', additionalProperties: { type: 'string' }, description: 'Custom property name to hex' },
+    usage: { type: 'array', items: { $ref: '#/components/schemas/ColorUsage' } },
+  },
+};
+
+const urlParameter = {
+  name: 'url',
+  in: 'query',
+  description: 'Page to extract (http or https). For POST, the base for relative links.',
+  schema: { type: 'string', format: 'uri' },
+};
+
+const freshParameter = {
+  name: 'fresh',
+  in: 'query',
+  description: 'Set to 1 to bypass the cache',
+  schema: { type: 'string', enum: ['1'] },
+};
+
+const crawlParameters = [
+  {
+    name: 'pages',
+    in: 'query',
+    description: 'Same-origin pages to crawl and merge, including the start page',
+    schema: { type: 'integer', minimum: 1, maximum: MAX_CRAWL_PAGES, default: 1 },
+  },
+  {
+    name: 'depth',
+    in: 'query',
+    description: 'Links to follow away from the start page when crawling',
+    schema: { type: 'integer', minimum: 1, maximum: MAX_CRAWL_DEPTH, default: 1 },
+  },
+];
+
+const thirdPartyParameter = {
+  name: 'thirdParty',
+  in: 'query',
+  description: 'auto leaves out known vendor stylesheets (consent banners, chat widgets, embeds) and down-weights other third-party ones; include uses them all; exclude drops every third-party stylesheet',
+  schema: { type: 'string', enum: THIRD_PARTY_MODES, default: 'auto' },
+};
+
+const debugParameter = {
+  name: 'debug',
+  in: 'query',
+  description: 'Set to 1 to report where each color was written (provenance)',
+  schema: { type: 'string', enum: ['1'] },
+};
+
+const themeParameters = [
+  { name: 'format', in: 'query', schema: { type: 'string', enum: THEME_FORMATS, default: 'css' } },
+  { name: 'contrast', in: 'query', schema: { type: 'string', enum: CONTRAST_OPTIONS, default: 'AA' } },
+  { name: 'preserveAlpha', in: 'query', schema: { type: 'string', enum: ['1'] } },
+  { name: 'raw', in: 'query', description: 'Set to 1 to return only the rendered output', schema: { type: 'string', enum: ['1'] } },
+];
+
+const documentBody = {
+  description: 'HTML and/or CSS to extract from',
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: {
+          html: { type: 'string' },
+          css: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+          url: { type: 'string', format: 'uri' },
+        },
+      },
+    },
+    'multipart/form-data': {
+      schema: {
+        type: 'object',
+        properties: {
+          html: { type: 'string', format: 'binary' },
+          css: { type: 'array', items: { type: 'string', format: 'binary' } },
+          url: { type: 'string', format: 'uri' },
+        },
+      },
+    },
+    'text/css': { schema: { type: 'string' } },
+    'text/html': { schema: { type: 'string' } },
+  },
+};
+
+// One response per distinct status, listing the codes that use it
+function errorResponses() {
+  const byStatus = new Map<number, string[]>();
+  for (const code of ERROR_CODES) {
+    if (code === 'INVALID_RESPONSE') continue;
+    const status = ERROR_STATUS[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+
+  return Object.fromEntries(
+    [...byStatus].map(([status, codes]) => [
+      String(status),
+      {
+        description: codes.join(', '),
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      },
+    ])
+  );
+}
+
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'ThemeGrab API',
+      version: API_VERSION,
+      description: 'Extract colors from a website and generate a shadcn/ui theme from them.',
+    },
+    servers: [{ url: serverUrl }],
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      schemas: {
+        ColorUsage: colorUsage,
+        DeclaredColor: declaredColor,
+        FontStyle: fontStyle,
+        Typography: typography,
+        ShapeTokens: shapeTokens,
+        DetectedFramework: detectedFramework,
+        CrawledPage: crawledPage,
+        ThirdPartyStylesheet: thirdPartyStylesheet,
+        ColorOrigin: colorOrigin,
+        ExtractProgress: extractProgress,
+        ColorSet: colorSet,
+        ExtractResponse: {
+          allOf: [
+            { $ref: '#/components/schemas/ColorSet' },
+            {
+              type: 'object',
+              required: ['css', 'stylesheets'],
+              properties: {
+                dark: {
+                  allOf: [
+                    { $ref: '#/components/schemas/ColorSet' },
+                    {
+                      type: 'object',
+                      properties: {
+                        weights: {
+                          type: 'object',
+                          additionalProperties: { type: 'number' },
+                          description: 'Hex to weight in dark mode: declarations plus elements matched by the dark rules using it',
+                        },
+                      },
+                    },
+                  ],
+                },
+                declared: { type: 'array', items: { $ref: '#/components/schemas/DeclaredColor' } },
+                typography: { $ref: '#/components/schemas/Typography' },
+                shape: { $ref: '#/components/schemas/ShapeTokens' },
+                framework: { $ref: '#/components/schemas/DetectedFramework' },
+                weights: {
+                  type: 'object',
+                  additionalProperties: { type: 'number' },
+                  description: 'Hex to weight: times written plus elements matched by the rules using it',
+                },
+                css: { type: 'string' },
+                stylesheets: { type: 'array', items: { type: 'string' } },
+                thirdParty: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/ThirdPartyStylesheet' },
+                  description: 'Fetched stylesheets from outside the site, and how their colors were used',
+                },
+                pages: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/CrawledPage' },
+                  description: 'Pages merged into the result, when crawling',
+                },
+                provenance: {
+                  type: 'object',
+                  additionalProperties: { type: 'array', items: { $ref: '#/components/schemas/ColorOrigin' } },
+                  description: 'With debug=1: hex to the declarations it was written in',
+                },
+              },
+            },
+          ],
+        },
+        ThemeResponse: {
+          type: 'object',
+          required: ['theme', 'format', 'output', 'stylesheets'],
+          properties: {
+            theme: { type: 'object', description: 'ExtractedTheme: light and dark token values, source colors, contrast report' },
+            format: { type: 'string', enum: THEME_FORMATS },
+            output: { type: 'string' },
+            stylesheets: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        Error: {
+          type: 'object',
+          required: ['error', 'code'],
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string', enum: ERROR_CODES },
+            upstreamStatus: { type: 'integer' },
+          },
+        },
+      },
+    },
+    security: [{}, { apiKey: [] }],
+    paths: {
+      '/api/extract': {
+        get: {
+          summary: 'Extract colors, design tokens and usage from a URL',
+          parameters: [{ ...urlParameter, required: true }, freshParameter, ...crawlParameters, thirdPartyParameter, debugParameter],
+          responses: {
+            200: {
+              description: 'Extracted colors',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/ExtractResponse' } } },
+            },
+            ...errorResponses(),
+          },
+        },
+        post: {
+          summary: 'Extract colors from posted HTML and/or CSS',
+          parameters: [urlParameter, thirdPartyParameter, debugParameter],
+          requestBody: documentBody,
+          responses: {
+            200: {
+              description: 'Extracted colors',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/ExtractResponse' } } },
+            },
+            ...errorResponses(),
+          },
+        },
+      },
+      '/api/extract/stream': {
+        get: {
+          summary: 'Extract from a URL, streaming progress as Server-Sent Events',
+          description: 'Sends `progress` events (ExtractProgress), then one `result` event (ExtractResponse) or `error` event (Error). ' +
+            'Requests rejected before the stream starts get a JSON error response.',
+          parameters: [{ ...urlParameter, required: true }, freshParameter, ...crawlParameters, thirdPartyParameter, debugParameter],
+          responses: {
+            200: {
+              description: 'Event stream',
+              content: { 'text/event-stream': { schema: { type: 'string' } } },
+            },
+            ...errorResponses(),
+          },
+        },
+      },
+      '/api/theme': {
+        get: {
+          summary: 'Generate a theme for a URL',
+          parameters: [{ ...urlParameter, required: true }, freshParameter, ...crawlParameters, thirdPartyParameter, ...themeParameters],
+          responses: {
+            200: {
+              description: 'Generated theme (or the rendered output alone with raw=1)',
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/ThemeResponse' } },
+                'text/css': { schema: { type: 'string' } },
+              },
+            },
+            ...errorResponses(),
+          },
+        },
+        post: {
+          summary: 'Generate a theme from posted HTML and/or CSS',
+          parameters: [urlParameter, thirdPartyParameter, ...themeParameters],
+          requestBody: documentBody,
+          responses: {
+            200: {
+              description: 'Generated theme (or the rendered output alone with raw=1)',
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/ThemeResponse' } },
+                'text/css': { schema: { type: 'string' } },
+              },
+            },
+            ...errorResponses(),
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,55 @@
+// Where each color was written, for the debug mode of /api/extract
+
+import type { ColorOrigin } from '../../src/lib/api-schema';
+import { findColorsInValue, normalizeProperty } from './color-usage';
+import { splitByColorScheme } from './color-scheme';
+import type { CSSRule } from './css-parser';
+import { collectCustomProperties, overrideCustomProperties, substituteVars, tokenValueToColor } from './custom-properties';
+
+// Origins kept per color, so debug responses stay a manageable size
+const MAX_ORIGINS_PER_COLOR = 20;
+
+// Record the declarations each color (by hex) comes from, in cascade
+// order: color properties, including through var(), and custom properties
+// holding a color. Dark-scoped rules resolve var() against the dark tokens.
+export function collectProvenance(
+  stylesheets: { url: string; rules: CSSRule[]; lineOffset: number | null }[]
+): Record<string, ColorOrigin[]> {
+  const { light, dark } = splitByColorScheme(stylesheets.flatMap(sheet => sheet.rules));
+  const lightProps = collectCustomProperties(light);
+  const darkProps = overrideCustomProperties(lightProps, dark);
+  const darkRules = new Set(dark);
+
+  const provenance: Record<string, ColorOrigin[]> = {};
+
+  for (const { url, rules, lineOffset } of stylesheets) {
+    for (const rule of rules) {
+      const props = darkRules.has(rule) ? darkProps : lightProps;
+
+      for (const { property, value, line, column } of rule.declarations) {
+        const isToken = property.startsWith('--');
+        if (!isToken && !normalizeProperty(property)) continue;
+
+        const resolved = value.includes('var(') ? substituteVars(value, props) : value;
+        if (!resolved) continue;
+
+        const direct = tokenValueToColor(resolved);
+        const colors = direct ? [direct] : isToken ? [] : findColorsInValue(resolved);
+
+        for (const color of new Set(colors)) {
+          const origins = (provenance[color] ??= []);
+          if (origins.length >= MAX_ORIGINS_PER_COLOR) continue;
+          origins.push({
+            url,
+            line: lineOffset !== null && line !== undefined ? line + lineOffset : null,
+            column: lineOffset !== null && column !== undefined ? column : null,
+            selector: rule.selector,
+            property,
+          });
+        }
+      }
+    }
+  }
+
+  return provenance;
+}
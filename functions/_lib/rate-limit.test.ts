@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryStore } from './cache';
+import { applyRateLimit, clientIp, consumeToken } from './rate-limit';
+
+// One token a second, bursting to three
+const TIER = { capacity: 3, perMinute: 60 };
+
+describe('consumeToken', () => {
+  it('allows a full bucket, then refuses until a token refills', async () => {
+    const store = createMemoryStore();
+    const now = Date.now();
+
+    for (let remaining = 2; remaining >= 0; remaining--) {
+      expect(await consumeToken(store, 'bucket', TIER, now)).toMatchObject({ allowed: true, remaining });
+    }
+    expect(await consumeToken(store, 'bucket', TIER, now)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+
+    // Half a token isn't enough
+    expect((await consumeToken(store, 'bucket', TIER, now + 500)).allowed).toBe(false);
+    expect(await consumeToken(store, 'bucket', TIER, now + 1000)).toMatchObject({ allowed: true, remaining: 0 });
+    expect((await consumeToken(store, 'bucket', TIER, now + 1000)).allowed).toBe(false);
+  });
+
+  it('refills no further than the capacity', async () => {
+    const store = createMemoryStore();
+    const now = Date.now();
+
+    await consumeToken(store, 'bucket', TIER, now);
+    expect(await consumeToken(store, 'bucket', TIER, now + 60 * 60 * 1000)).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('keeps buckets apart', async () => {
+    const store = createMemoryStore();
+    const now = Date.now();
+
+    for (let i = 0; i < TIER.capacity; i++) await consumeToken(store, 'a', TIER, now);
+    expect((await consumeToken(store, 'a', TIER, now)).allowed).toBe(false);
+    expect((await consumeToken(store, 'b', TIER, now)).allowed).toBe(true);
+  });
+});
+
+describe('clientIp', () => {
+  it('trusts only CF-Connecting-IP', () => {
+    const request = (headers: Record<string, string>) => new Request('https://example.com/', { headers });
+
+    expect(clientIp(request({ 'CF-Connecting-IP': '203.0.113.7', 'X-Forwarded-For': '198.51.100.1' }))).toBe('203.0.113.7');
+    expect(clientIp(request({ 'X-Forwarded-For': '198.51.100.1' }))).toBe(clientIp(request({})));
+  });
+});
+
+describe('applyRateLimit', () => {
+  it('limits anonymous clients per IP and rejects unknown API keys', async () => {
+    const store = createMemoryStore();
+    const request = (headers: Record<string, string>) => new Request('https://example.com/api/extract', { headers });
+
+    let decision = await applyRateLimit(request({ 'CF-Connecting-IP': '203.0.113.7' }), store);
+    expect(decision.allowed).toBe(true);
+    expect(decision.headers['X-RateLimit-Limit']).toBe('20');
+
+    decision = await applyRateLimit(request({ 'X-API-Key': 'nope' }), store, 'secret:600');
+    expect(decision).toMatchObject({ allowed: false, code: 'INVALID_API_KEY' });
+
+    decision = await applyRateLimit(request({ Authorization: 'Bearer secret' }), store, 'secret:600');
+    expect(decision.allowed).toBe(true);
+    expect(decision.headers['X-RateLimit-Limit']).toBe('600');
+  });
+});
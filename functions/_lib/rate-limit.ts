@@ -0,0 +1,145 @@
+// Token-bucket rate limiting per client IP, with higher quotas for API keys
+
+import type { CacheStore } from './cache';
+
+export interface RateLimitTier {
+  // Requests a client can burst before being limited
+  capacity: number;
+  // Sustained requests per minute
+  perMinute: number;
+}
+
+export const ANONYMOUS_TIER: RateLimitTier = { capacity: 10, perMinute: 20 };
+export const API_KEY_TIER: RateLimitTier = { capacity: 60, perMinute: 300 };
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export type RateLimitDecision =
+  | { allowed: true; headers: Record<string, string> }
+  | {
+      allowed: false;
+      code: 'INVALID_API_KEY' | 'RATE_LIMITED';
+      error: string;
+      headers: Record<string, string>;
+    };
+
+// Parse the API_KEYS binding: comma-separated keys, each optionally with its
+// own requests-per-minute quota (`key` or `key:600`)
+export function parseApiKeys(config: string | undefined): Map<string, RateLimitTier> {
+  const keys = new Map<string, RateLimitTier>();
+
+  for (const entry of (config ?? '').split(',')) {
+    const [key, quota] = entry.trim().split(':');
+    if (!key) continue;
+
+    const perMinute = Number(quota);
+    keys.set(key, perMinute > 0
+      ? { capacity: Math.max(1, Math.ceil(perMinute / 5)), perMinute }
+      : API_KEY_TIER);
+  }
+
+  return keys;
+}
+
+// The API key a request carries, from X-API-Key or a bearer token
+export function findApiKey(request: Request): string | null {
+  const header = request.headers.get('X-API-Key');
+  if (header) return header.trim();
+
+  const bearer = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i);
+  return bearer ? bearer[1].trim() : null;
+}
+
+// The client's IP as seen by Cloudflare. Without it (local runs) every
+// request shares one bucket; headers the client sets itself, such as
+// X-Forwarded-For, would let it pick a fresh bucket per request.
+export function clientIp(request: Request): string {
+  return request.headers.get('CF-Connecting-IP') ?? 'unknown';
+}
+
+// Bucket keys never contain the raw API key
+async function hashKey(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Take one token from a bucket, refilling it for the time since last use.
+// The read-then-write isn't atomic, so a KV-backed bucket may let a few
+// extra requests through under concurrency; that's acceptable here.
+export async function consumeToken(
+  store: CacheStore,
+  key: string,
+  tier: RateLimitTier,
+  now = Date.now()
+): Promise<{ allowed: boolean; remaining: number; retryAfterSeconds: number; resetSeconds: number }> {
+  const refillPerMs = tier.perMinute / 60000;
+  let state: BucketState | null = null;
+  try {
+    const raw = await store.get(key);
+    state = raw ? (JSON.parse(raw) as BucketState) : null;
+  } catch {
+    state = null;
+  }
+
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state ? Math.min(tier.capacity, state.tokens + elapsed * refillPerMs) : tier.capacity;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  // Keep the bucket around until it would be full again
+  const secondsToFull = Math.ceil((tier.capacity - tokens) / refillPerMs / 1000);
+  try {
+    await store.put(key, JSON.stringify({ tokens, updatedAt: now }), Math.max(secondsToFull, 1));
+  } catch {
+    // Failing open: an unavailable store shouldn't take the API down
+  }
+
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs / 1000),
+    resetSeconds: secondsToFull,
+  };
+}
+
+// Check a request against its client's bucket: API-key holders get their
+// key's quota, everyone else is limited per IP
+export async function applyRateLimit(
+  request: Request,
+  store: CacheStore,
+  apiKeysConfig?: string
+): Promise<RateLimitDecision> {
+  const apiKey = findApiKey(request);
+  let tier = ANONYMOUS_TIER;
+  let bucketKey = `ratelimit:ip:${clientIp(request)}`;
+
+  if (apiKey) {
+    const keyTier = parseApiKeys(apiKeysConfig).get(apiKey);
+    if (!keyTier) {
+      return { allowed: false, code: 'INVALID_API_KEY', error: 'Invalid API key', headers: {} };
+    }
+    tier = keyTier;
+    bucketKey = `ratelimit:key:${await hashKey(apiKey)}`;
+  }
+
+  const result = await consumeToken(store, bucketKey, tier);
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(tier.perMinute),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.resetSeconds),
+  };
+
+  if (!result.allowed) {
+    return {
+      allowed: false,
+      code: 'RATE_LIMITED',
+      error: `Too many requests, retry in ${result.retryAfterSeconds}s`,
+      headers: { ...headers, 'Retry-After': String(result.retryAfterSeconds) },
+    };
+  }
+
+  return { allowed: true, headers };
+}
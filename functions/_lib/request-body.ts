@@ -0,0 +1,110 @@
+// Reading HTML/CSS posted to the extract function (JSON, multipart or raw)
+
+import { ApiError } from '../../src/lib/api-schema';
+
+export interface ExtractInput {
+  html: string;
+  css: string[];
+  // Page URL used to resolve relative <link>/@import URLs, if given
+  url: string | null;
+}
+
+// Posted documents larger than this are rejected
+export const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+// Read the request body, rejecting it once it grows past maxBytes (so a
+// missing or lying Content-Length can't get around the limit)
+async function readBody(request: Request, maxBytes: number): Promise<Uint8Array<ArrayBuffer>> {
+  const declared = Number(request.headers.get('Content-Length'));
+  if (declared > maxBytes) {
+    throw new ApiError('PAYLOAD_TOO_LARGE', `Request body is larger than ${maxBytes} bytes`);
+  }
+  if (!request.body) return new Uint8Array();
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new ApiError('PAYLOAD_TOO_LARGE', `Request body is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+// Accept a string or list of strings from a JSON field
+function toStrings(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value;
+  throw new ApiError('INVALID_BODY', `"${field}" must be a string or an array of strings`);
+}
+
+// Parse the posted HTML and CSS. Accepts:
+// - application/json: { "html"?: string, "css"?: string | string[], "url"?: string }
+// - multipart/form-data: `html`, `css` (repeatable) and `url` fields or files
+// - a raw body (e.g. `curl --data-binary @index.css`), treated as HTML if
+//   it's sent as text/html or looks like markup, and as CSS otherwise
+export async function readExtractInput(request: Request, maxBytes = MAX_BODY_BYTES): Promise<ExtractInput> {
+  const contentType = request.headers.get('Content-Type') ?? '';
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  const body = await readBody(request, maxBytes);
+  const asResponse = () => new Response(body, { headers: { 'Content-Type': contentType } });
+
+  let input: ExtractInput;
+
+  if (mediaType === 'application/json') {
+    let data: unknown;
+    try {
+      data = await asResponse().json();
+    } catch {
+      throw new ApiError('INVALID_BODY', 'Request body is not valid JSON');
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new ApiError('INVALID_BODY', 'Request body must be a JSON object');
+    }
+
+    const fields = data as Record<string, unknown>;
+    const url = toStrings(fields.url, 'url')[0] ?? null;
+    input = { html: toStrings(fields.html, 'html').join('\n'), css: toStrings(fields.css, 'css'), url };
+  } else if (mediaType === 'multipart/form-data') {
+    let form: FormData;
+    try {
+      form = await asResponse().formData();
+    } catch {
+      throw new ApiError('INVALID_BODY', 'Request body is not valid multipart form data');
+    }
+
+    const texts = (field: string) =>
+      Promise.all(form.getAll(field).map(value => (typeof value === 'string' ? value : value.text())));
+    const html = await texts('html');
+    const url = form.get('url');
+    input = { html: html.join('\n'), css: await texts('css'), url: typeof url === 'string' ? url : null };
+  } else {
+    const text = new TextDecoder().decode(body);
+    const isHTML = mediaType === 'text/html' ||
+      mediaType === 'application/xhtml+xml' ||
+      (mediaType !== 'text/css' && /^\s*</.test(text));
+    input = isHTML ? { html: text, css: [], url: null } : { html: '', css: [text], url: null };
+  }
+
+  if (!input.html.trim() && input.css.every(css => !css.trim())) {
+    throw new ApiError('EMPTY_BODY', 'Send HTML and/or CSS to extract colors from');
+  }
+
+  return input;
+}
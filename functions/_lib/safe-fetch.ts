@@ -0,0 +1,299 @@
+// Hardened fetch for user-supplied URLs: blocks private and reserved hosts
+// (including redirect targets), and caps redirects, time and response size
+
+import { ApiError } from '../../src/lib/api-schema';
+
+export interface SafeFetchOptions {
+  // Accepted media types; a missing Content-Type is accepted too
+  contentTypes: string[];
+  // Bytes read before the body is truncated
+  maxBytes: number;
+  timeoutMs: number;
+  maxRedirects: number;
+  accept: string;
+  // Extra request headers, e.g. If-None-Match for revalidation
+  headers?: Record<string, string>;
+  // Aborts the fetch early, e.g. when a wider budget runs out
+  signal?: AbortSignal;
+  // Let private and loopback hosts through, for local fixture servers
+  allowPrivateHosts?: boolean;
+}
+
+export interface SafeFetchResult {
+  // Final URL after redirects
+  url: string;
+  text: string;
+  contentType: string;
+  // Whether the body was cut off at maxBytes
+  truncated: boolean;
+  // Upstream answered a conditional request with 304; text is empty
+  notModified: boolean;
+  // Validators for revalidating later
+  etag: string | null;
+  lastModified: string | null;
+}
+
+export const PAGE_FETCH_OPTIONS: SafeFetchOptions = {
+  contentTypes: ['text/html', 'application/xhtml+xml'],
+  maxBytes: 2 * 1024 * 1024,
+  timeoutMs: 10000,
+  maxRedirects: 5,
+  accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1',
+};
+
+export const STYLESHEET_FETCH_OPTIONS: SafeFetchOptions = {
+  contentTypes: ['text/css'],
+  maxBytes: 1024 * 1024,
+  timeoutMs: 5000,
+  maxRedirects: 5,
+  accept: 'text/css,*/*;q=0.1',
+};
+
+export const MANIFEST_FETCH_OPTIONS: SafeFetchOptions = {
+  contentTypes: ['application/manifest+json', 'application/json', 'text/plain'],
+  maxBytes: 100 * 1024,
+  timeoutMs: 5000,
+  maxRedirects: 5,
+  accept: 'application/manifest+json,application/json;q=0.9,*/*;q=0.1',
+};
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; ThemeGrab/1.0)';
+
+// Hostnames that only resolve inside a network
+const BLOCKED_HOSTNAME = /(?:^|\.)(?:localhost|local|localdomain|internal|intranet|lan|home\.arpa|corp)$/i;
+
+// Private, loopback, link-local and otherwise reserved IPv4 ranges
+const BLOCKED_IPV4: [number, number][] = [
+  [0x00000000, 8], // 0.0.0.0/8 "this network"
+  [0x0a000000, 8], // 10.0.0.0/8
+  [0x64400000, 10], // 100.64.0.0/10 carrier-grade NAT
+  [0x7f000000, 8], // 127.0.0.0/8 loopback
+  [0xa9fe0000, 16], // 169.254.0.0/16 link-local, cloud metadata
+  [0xac100000, 12], // 172.16.0.0/12
+  [0xc0000000, 24], // 192.0.0.0/24
+  [0xc0000200, 24], // 192.0.2.0/24 documentation
+  [0xc0586300, 24], // 192.88.99.0/24 6to4 relay
+  [0xc0a80000, 16], // 192.168.0.0/16
+  [0xc6120000, 15], // 198.18.0.0/15 benchmarking
+  [0xc6336400, 24], // 198.51.100.0/24 documentation
+  [0xcb007100, 24], // 203.0.113.0/24 documentation
+  [0xe0000000, 4], // 224.0.0.0/4 multicast
+  [0xf0000000, 4], // 240.0.0.0/4 reserved, broadcast
+];
+
+function parseIPv4(host: string): number | null {
+  const parts = host.split('.');
+  if (parts.length !== 4 || !parts.every(p => /^\d{1,3}$/.test(p) && Number(p) <= 255)) return null;
+  return parts.reduce((n, p) => n * 256 + Number(p), 0);
+}
+
+function isBlockedIPv4(address: number): boolean {
+  return BLOCKED_IPV4.some(([base, bits]) => {
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return ((address & mask) >>> 0) === base;
+  });
+}
+
+// Expand an IPv6 literal into its eight 16-bit groups
+function parseIPv6(host: string): number[] | null {
+  let address = host.replace(/^\[|\]$/g, '').toLowerCase();
+  if (!address.includes(':')) return null;
+
+  // Trailing dotted IPv4 (::ffff:1.2.3.4) becomes two groups
+  const dotted = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = parseIPv4(dotted[1]);
+    if (v4 === null) return null;
+    address = address.slice(0, -dotted[1].length) + `${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail, ...rest] = address.split('::');
+  if (rest.length > 0) return null;
+  const toGroups = (part: string | undefined) => (part ? part.split(':').map(g => parseInt(g, 16)) : []);
+  const headGroups = toGroups(head);
+  const tailGroups = toGroups(tail);
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...headGroups, ...Array<number>(tail === undefined ? 0 : missing).fill(0), ...tailGroups];
+  return groups.every(g => Number.isInteger(g) && g >= 0 && g <= 0xffff) ? groups : null;
+}
+
+function isBlockedIPv6(groups: number[]): boolean {
+  const embeddedV4 = ((groups[6] << 16) | groups[7]) >>> 0;
+  const leadingZeros = groups.slice(0, 5).every(g => g === 0);
+
+  if (groups.every(g => g === 0)) return true; // :: unspecified
+  if (leadingZeros && groups[5] === 0 && groups[6] === 0 && groups[7] === 1) return true; // ::1 loopback
+  if (leadingZeros && (groups[5] === 0xffff || groups[5] === 0)) return isBlockedIPv4(embeddedV4); // mapped/compatible
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) return isBlockedIPv4(embeddedV4); // NAT64
+  if (groups[0] === 0x2002) return isBlockedIPv4(((groups[1] << 16) | groups[2]) >>> 0); // 6to4
+  if ((groups[0] & 0xfe00) === 0xfc00) return true; // fc00::/7 unique local
+  if ((groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xffc0) === 0xfec0) return true; // link/site-local
+  if ((groups[0] & 0xff00) === 0xff00) return true; // multicast
+  if (groups[0] === 0x2001 && groups[1] === 0x0db8) return true; // documentation
+  if (groups[0] === 0x0100 && groups.slice(1, 4).every(g => g === 0)) return true; // discard-only
+  return false;
+}
+
+// Check whether a hostname points at a private, loopback or reserved address.
+// Only literal addresses and internal names can be checked here; Workers
+// can't resolve DNS, and their fetch() refuses private addresses anyway.
+export function isBlockedHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (!host || BLOCKED_HOSTNAME.test(host)) return true;
+
+  const v4 = parseIPv4(host);
+  if (v4 !== null) return isBlockedIPv4(v4);
+
+  const v6 = parseIPv6(host);
+  if (v6 !== null) return isBlockedIPv6(v6);
+  if (host.includes(':')) return true;
+
+  // Single-label names only resolve on a local network
+  return !host.includes('.');
+}
+
+// Validate a user-supplied or redirect URL before fetching it
+export function validateUrl(input: string, base?: string, allowPrivateHosts = false): URL {
+  let url: URL;
+  try {
+    url = new URL(input, base);
+  } catch {
+    throw new ApiError('INVALID_URL', 'Invalid URL');
+  }
+
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    throw new ApiError('INVALID_URL', 'Invalid URL protocol');
+  }
+  if (url.username || url.password) {
+    throw new ApiError('INVALID_URL', 'URLs with credentials are not allowed');
+  }
+  if (!allowPrivateHosts && isBlockedHost(url.hostname)) {
+    throw new ApiError('BLOCKED_HOST', `Refusing to fetch private or reserved host ${url.hostname}`);
+  }
+
+  return url;
+}
+
+// Media type without parameters, e.g. 'text/html'
+function mediaType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+// Read a body as text, stopping after maxBytes
+async function readLimited(
+  response: Response,
+  maxBytes: number
+): Promise<{ text: string; truncated: boolean }> {
+  const charset = response.headers.get('Content-Type')?.match(/charset=["']?([\w-]+)/i)?.[1];
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset || 'utf-8');
+  } catch {
+    decoder = new TextDecoder('utf-8');
+  }
+
+  if (!response.body) {
+    return { text: '', truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: string[] = [];
+  let received = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const remaining = maxBytes - received;
+    if (value.byteLength > remaining) {
+      chunks.push(decoder.decode(value.subarray(0, remaining), { stream: true }));
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+
+    chunks.push(decoder.decode(value, { stream: true }));
+    received += value.byteLength;
+  }
+
+  chunks.push(decoder.decode());
+  return { text: chunks.join(''), truncated };
+}
+
+// Fetch a URL, following redirects manually so every hop is validated
+export async function safeFetch(input: string, options: SafeFetchOptions): Promise<SafeFetchResult> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+  const abortFromParent = () => controller.abort();
+  options.signal?.addEventListener('abort', abortFromParent);
+  if (options.signal?.aborted) controller.abort();
+
+  try {
+    let url = validateUrl(input, undefined, options.allowPrivateHosts);
+
+    for (let redirects = 0; ; redirects++) {
+      let response: Response;
+      try {
+        response = await fetch(url.toString(), {
+          headers: {
+            ...options.headers,
+            'User-Agent': USER_AGENT,
+            'Accept': options.accept,
+          },
+          redirect: 'manual',
+          signal: controller.signal,
+        });
+      } catch {
+        if (controller.signal.aborted) {
+          throw new ApiError('TIMEOUT', `Timed out fetching ${url.hostname}`);
+        }
+        throw new ApiError('FETCH_FAILED', `Failed to fetch ${url.hostname}`);
+      }
+
+      if (response.status >= 300 && response.status < 400 && response.headers.has('Location')) {
+        await response.body?.cancel();
+        if (redirects >= options.maxRedirects) {
+          throw new ApiError('TOO_MANY_REDIRECTS', `Too many redirects (more than ${options.maxRedirects})`);
+        }
+        url = validateUrl(response.headers.get('Location')!, url.toString(), options.allowPrivateHosts);
+        continue;
+      }
+
+      const validators = {
+        etag: response.headers.get('ETag'),
+        lastModified: response.headers.get('Last-Modified'),
+      };
+
+      if (response.status === 304) {
+        return { url: url.toString(), text: '', contentType: '', truncated: false, notModified: true, ...validators };
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new ApiError('UPSTREAM_STATUS', `Failed to fetch: ${response.status}`, response.status);
+      }
+
+      const contentType = response.headers.get('Content-Type') ?? '';
+      if (contentType && !options.contentTypes.includes(mediaType(contentType))) {
+        await response.body?.cancel();
+        throw new ApiError('UNSUPPORTED_CONTENT_TYPE', `Unsupported content type: ${mediaType(contentType)}`);
+      }
+
+      try {
+        const { text, truncated } = await readLimited(response, options.maxBytes);
+        return { url: url.toString(), text, contentType, truncated, notModified: false, ...validators };
+      } catch {
+        if (controller.signal.aborted) {
+          throw new ApiError('TIMEOUT', `Timed out reading ${url.hostname}`);
+        }
+        throw new ApiError('FETCH_FAILED', `Failed to read ${url.hostname}`);
+      }
+    }
+  } finally {
+    clearTimeout(timeout);
+    options.signal?.removeEventListener('abort', abortFromParent);
+  }
+}
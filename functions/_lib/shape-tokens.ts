@@ -0,0 +1,190 @@
+// Corner radius, shadow and spacing detection from a page's stylesheets
+
+import type { ShadowScale, ShapeTokens } from '../../src/lib/shape-tokens';
+import { classifySelector } from './color-usage';
+import { splitByColorScheme } from './color-scheme';
+import type { CSSRule } from './css-parser';
+import { collectCustomProperties, substituteVars } from './custom-properties';
+import { type ElementIndex, countSelectorMatches } from './element-index';
+
+// Card-like containers; shadcn cards are rounded-xl (--radius + 4px)
+const CARD_SUBJECT = /\.(?:card|panel|tile|modal|dialog|popover|dropdown-menu)\b/i;
+
+// Root font size for converting between px and rem
+const ROOT_FONT_SIZE = 16;
+
+// Radii at or above this are pills and circles, not the corner style
+const MAX_CORNER_RADIUS = 100;
+
+// Grid units (px) the spacing detection tries, largest first; each must
+// divide most spacing values
+const SPACING_UNITS = [6, 5, 4];
+const SPACING_COVERAGE = 0.8;
+const MIN_SPACING_VALUES = 5;
+
+function tally(map: Map<string, number>, key: string, amount: number) {
+  map.set(key, (map.get(key) ?? 0) + amount);
+}
+
+function mostUsed(map: Map<string, number>): string | null {
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [key, count] of map) {
+    if (count > bestCount) {
+      best = key;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// A px, rem or em length (or unitless 0) in px
+function toPx(length: string): number | null {
+  const match = /^(-?[\d.]+)(px|r?em)?$/i.exec(length.trim());
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  if (!Number.isFinite(value)) return null;
+  if (!match[2]) return value === 0 ? 0 : null;
+  return match[2].toLowerCase() === 'px' ? value : value * ROOT_FONT_SIZE;
+}
+
+function toRem(px: number): string {
+  return `${Math.round((px / ROOT_FONT_SIZE) * 1000) / 1000}rem`;
+}
+
+// Split on a separator outside parentheses (shadow layers, value tokens)
+function splitOutsideParens(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (depth === 0 && separator.test(char)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts;
+}
+
+// How far a shadow reaches (largest y offset plus blur of its layers), or
+// null for shadows that aren't elevation: inset-only ones and focus rings
+function shadowSize(value: string): number | null {
+  let size: number | null = null;
+
+  for (const layer of splitOutsideParens(value, /,/)) {
+    const tokens = splitOutsideParens(layer, /\s/);
+    if (tokens.some(token => token.toLowerCase() === 'inset')) continue;
+
+    const lengths = tokens.map(toPx).filter((px): px is number => px !== null);
+    if (lengths.length < 2) continue;
+
+    const [, y, blur = 0] = lengths;
+    // Spread-only rings (`0 0 0 3px`) outline rather than lift
+    if (y === 0 && blur === 0) continue;
+
+    size = Math.max(size ?? 0, Math.abs(y) + blur);
+  }
+
+  return size;
+}
+
+// Pick sm/md/lg from the most used shadows, ordered by how far they reach
+function buildShadowScale(shadows: Map<string, number>): ShadowScale {
+  const ranked = [...shadows.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 6)
+    .map(([value, count]) => ({ value, count, size: shadowSize(value)! }))
+    .sort((a, b) => a.size - b.size);
+
+  if (ranked.length === 0) return { sm: null, md: null, lg: null };
+  if (ranked.length === 1) return { sm: null, md: ranked[0].value, lg: null };
+  if (ranked.length === 2) return { sm: ranked[0].value, md: null, lg: ranked[1].value };
+
+  const middle = ranked.slice(1, -1).sort((a, b) => b.count - a.count)[0];
+  return { sm: ranked[0].value, md: middle.value, lg: ranked[ranked.length - 1].value };
+}
+
+// The largest grid unit that most padding, margin and gap values are
+// multiples of
+function findSpacingUnit(values: number[]): number | null {
+  if (values.length < MIN_SPACING_VALUES) return null;
+
+  for (const unit of SPACING_UNITS) {
+    const multiples = values.filter(px => Math.abs(px / unit - Math.round(px / unit)) < 0.01);
+    if (multiples.length / values.length >= SPACING_COVERAGE) return unit;
+  }
+
+  return null;
+}
+
+// The site's own --radius token in px, when it declares a plain length
+function declaredRadius(props: Map<string, string>): number | null {
+  if (!props.has('--radius')) return null;
+  const resolved = substituteVars('var(--radius)', props);
+  const px = resolved !== null ? toPx(resolved) : null;
+  return px !== null && px >= 0 && px < MAX_CORNER_RADIUS ? px : null;
+}
+
+// Take --radius from the site's own token or, without one, from the
+// corners of cards (rounded-xl, 4px more) or buttons and inputs
+// (rounded-md, 2px less), plus the shadow scale and the spacing unit.
+// Rules count once plus once per page element they match.
+export function extractShapeTokens(rules: CSSRule[], elements?: ElementIndex): ShapeTokens {
+  const { light } = splitByColorScheme(rules);
+  const props = collectCustomProperties(light);
+
+  const cardRadii = new Map<string, number>();
+  const controlRadii = new Map<string, number>();
+  const shadows = new Map<string, number>();
+  const spacing: number[] = [];
+
+  for (const rule of light) {
+    if (rule.selector.startsWith('@')) continue;
+
+    const weight = 1 + (elements ? countSelectorMatches(rule.selector, elements) : 0);
+    const kinds = classifySelector(rule.selector);
+    const isCard = rule.selector.split(',').some(part => CARD_SUBJECT.test(part.trim().split(/\s*[\s>+~]\s*/).pop() ?? ''));
+    const isControl = kinds.includes('button') || kinds.includes('input');
+
+    for (const { property, value } of rule.declarations) {
+      const resolved = value.includes('var(') ? substituteVars(value, props) : value;
+      if (!resolved) continue;
+
+      if ((property === 'border-radius' || property === 'border-top-left-radius') && (isCard || isControl)) {
+        const px = toPx(resolved.split('/')[0].trim().split(/\s+/)[0]);
+        if (px === null || px >= MAX_CORNER_RADIUS) continue;
+        tally(isCard ? cardRadii : controlRadii, String(px), weight);
+      } else if (property === 'box-shadow') {
+        const shadow = resolved.replace(/\s+/g, ' ').trim();
+        if (shadowSize(shadow) !== null) tally(shadows, shadow, weight);
+      } else if (/^(?:padding|margin)(?:-(?:top|right|bottom|left|block|inline)(?:-(?:start|end))?)?$|^(?:row-|column-)?gap$/.test(property)) {
+        for (const token of resolved.split(/\s+/)) {
+          const px = toPx(token);
+          if (px) spacing.push(Math.abs(px));
+        }
+      }
+    }
+  }
+
+  const cardRadius = mostUsed(cardRadii);
+  const controlRadius = mostUsed(controlRadii);
+  // Square corners stay square
+  const cornerRadius = cardRadius !== null ? Math.max(Number(cardRadius) - 4, 0)
+    : controlRadius === null ? null
+    : Number(controlRadius) === 0 ? 0 : Number(controlRadius) + 2;
+  const radiusPx = declaredRadius(props) ?? cornerRadius;
+  const unit = findSpacingUnit(spacing);
+
+  return {
+    radius: radiusPx !== null ? toRem(radiusPx) : null,
+    shadows: buildShadowScale(shadows),
+    spacing: unit !== null ? toRem(unit) : null,
+  };
+}
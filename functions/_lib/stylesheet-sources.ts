@@ -0,0 +1,129 @@
+// First- or third-party classification of a page's stylesheets, so colors
+// from consent banners, chat widgets and embeds don't end up in the theme
+
+import type { StylesheetHandling, ThirdPartyMode } from '../../src/lib/api-schema';
+
+export type VendorCategory = 'consent' | 'chat' | 'analytics' | 'fonts' | 'social' | 'ads';
+
+interface Vendor {
+  name: string;
+  category: VendorCategory;
+  // Hosts the vendor serves from; subdomains match too
+  hosts: string[];
+  // Paths of the vendor's CSS when a site hosts it itself (e.g. a
+  // WordPress plugin)
+  paths?: RegExp;
+}
+
+// Known vendors whose stylesheets style their own widgets, not the site
+const VENDORS: Vendor[] = [
+  { name: 'OneTrust', category: 'consent', hosts: ['cookielaw.org', 'onetrust.com'] },
+  { name: 'Cookiebot', category: 'consent', hosts: ['cookiebot.com', 'cookiebot.eu'] },
+  { name: 'Usercentrics', category: 'consent', hosts: ['usercentrics.eu', 'usercentrics.com'] },
+  { name: 'TrustArc', category: 'consent', hosts: ['trustarc.com', 'truste.com'] },
+  { name: 'Didomi', category: 'consent', hosts: ['didomi.io'] },
+  { name: 'Osano', category: 'consent', hosts: ['osano.com'] },
+  { name: 'Termly', category: 'consent', hosts: ['termly.io'] },
+  { name: 'iubenda', category: 'consent', hosts: ['iubenda.com'] },
+  { name: 'Quantcast Choice', category: 'consent', hosts: ['quantcast.com'] },
+  {
+    name: 'Cookie consent plugin',
+    category: 'consent',
+    hosts: [],
+    paths: /\/(?:cookie-?(?:consent|notice|law-info|banner|bar|yes)|complianz-gdpr|gdpr-cookie-compliance|cookieconsent)[/.-]/i,
+  },
+  { name: 'Intercom', category: 'chat', hosts: ['intercom.io', 'intercomcdn.com'] },
+  { name: 'Drift', category: 'chat', hosts: ['drift.com', 'driftt.com'] },
+  { name: 'Zendesk', category: 'chat', hosts: ['zdassets.com', 'zendesk.com'] },
+  { name: 'HubSpot', category: 'chat', hosts: ['hubspot.com', 'hs-scripts.com', 'hsforms.net', 'usemessages.com'] },
+  { name: 'Crisp', category: 'chat', hosts: ['crisp.chat'] },
+  { name: 'tawk.to', category: 'chat', hosts: ['tawk.to'] },
+  { name: 'LiveChat', category: 'chat', hosts: ['livechatinc.com'] },
+  { name: 'Olark', category: 'chat', hosts: ['olark.com'] },
+  { name: 'Freshchat', category: 'chat', hosts: ['freshchat.com', 'freshworks.com'] },
+  { name: 'Tidio', category: 'chat', hosts: ['tidio.co', 'tidiochat.com'] },
+  { name: 'Google Analytics', category: 'analytics', hosts: ['google-analytics.com', 'googletagmanager.com'] },
+  { name: 'Hotjar', category: 'analytics', hosts: ['hotjar.com'] },
+  { name: 'Segment', category: 'analytics', hosts: ['segment.com', 'segment.io'] },
+  { name: 'Optimizely', category: 'analytics', hosts: ['optimizely.com'] },
+  { name: 'VWO', category: 'analytics', hosts: ['visualwebsiteoptimizer.com'] },
+  { name: 'Google Fonts', category: 'fonts', hosts: ['fonts.googleapis.com'] },
+  { name: 'Adobe Fonts', category: 'fonts', hosts: ['use.typekit.net', 'p.typekit.net'] },
+  { name: 'Bunny Fonts', category: 'fonts', hosts: ['fonts.bunny.net'] },
+  { name: 'CDNFonts', category: 'fonts', hosts: ['fonts.cdnfonts.com'] },
+  { name: 'Font Awesome', category: 'fonts', hosts: ['use.fontawesome.com', 'kit.fontawesome.com', 'ka-f.fontawesome.com'] },
+  { name: 'X (Twitter)', category: 'social', hosts: ['platform.twitter.com', 'twimg.com'] },
+  { name: 'Facebook', category: 'social', hosts: ['connect.facebook.net', 'facebook.com'] },
+  { name: 'Instagram', category: 'social', hosts: ['instagram.com', 'cdninstagram.com'] },
+  { name: 'YouTube', category: 'social', hosts: ['youtube.com', 'ytimg.com'] },
+  { name: 'Vimeo', category: 'social', hosts: ['vimeo.com', 'vimeocdn.com'] },
+  { name: 'Disqus', category: 'social', hosts: ['disqus.com', 'disquscdn.com'] },
+  { name: 'AddThis', category: 'social', hosts: ['addthis.com'] },
+  { name: 'ShareThis', category: 'social', hosts: ['sharethis.com'] },
+  { name: 'Google Ads', category: 'ads', hosts: ['doubleclick.net', 'googlesyndication.com', 'googleadservices.com'] },
+];
+
+export interface StylesheetSource {
+  party: 'first' | 'third';
+  vendor: { name: string; category: VendorCategory } | null;
+}
+
+// Second-level labels under country codes that are registries, not sites
+// (`example.co.uk`, `example.com.au`)
+const REGISTRY_LABEL = /^(?:co|com|net|org|gov|edu|ac|ne|or)$/;
+
+// The registrable part of a hostname, approximately: `shop.example.co.uk`
+// and `www.example.co.uk` are both `example.co.uk`
+function siteOf(hostname: string): string {
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.');
+  if (labels.length <= 2 || /^\d+$/.test(labels[labels.length - 1])) return labels.join('.');
+
+  const keep = labels[labels.length - 1].length === 2 && REGISTRY_LABEL.test(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-keep).join('.');
+}
+
+function matchesHost(hostname: string, host: string): boolean {
+  return hostname === host || hostname.endsWith(`.${host}`);
+}
+
+function findVendor(url: URL): Vendor | null {
+  const hostname = url.hostname.toLowerCase();
+  return VENDORS.find(vendor =>
+    vendor.hosts.some(host => matchesHost(hostname, host)) || !!vendor.paths?.test(url.pathname)
+  ) ?? null;
+}
+
+// Classify a stylesheet by where it comes from: known vendors (by host, or
+// by path when self-hosted) are third-party, as is anything served from
+// another site; inline CSS and sheets from the page's own site (any
+// subdomain) are first-party
+export function classifyStylesheet(sheetUrl: string, pageUrl: string, inline: boolean): StylesheetSource {
+  if (inline) return { party: 'first', vendor: null };
+
+  let url: URL;
+  try {
+    url = new URL(sheetUrl);
+  } catch {
+    return { party: 'first', vendor: null };
+  }
+
+  const vendor = findVendor(url);
+  if (vendor) return { party: 'third', vendor: { name: vendor.name, category: vendor.category } };
+
+  let sameSite = true;
+  try {
+    sameSite = siteOf(url.hostname) === siteOf(new URL(pageUrl).hostname);
+  } catch {
+    // Posted documents without a page URL: nothing to compare against
+  }
+  return { party: sameSite ? 'first' : 'third', vendor: null };
+}
+
+// What to do with a third-party stylesheet's colors. In `auto` mode known
+// vendors are left out; other sites' sheets are often the site's own CDN
+// or a framework it builds on, so they're kept but count for less.
+export function stylesheetHandling(source: StylesheetSource, mode: ThirdPartyMode): StylesheetHandling {
+  if (source.party === 'first' || mode === 'include') return 'included';
+  if (mode === 'exclude' || source.vendor) return 'excluded';
+  return 'downweighted';
+}
@@ -0,0 +1,298 @@
+// Stylesheet discovery: <link>, <style> and @import chains
+
+import { extractInlineStyles } from './css-parser';
+import { findBaseUrl, parseAttributes } from './html';
+
+export interface Stylesheet {
+  // URL the stylesheet was fetched from, or the page URL for inline CSS
+  url: string;
+  // CSS text, wrapped in @media blocks when the sheet is media-scoped
+  css: string;
+  inline: boolean;
+  // Lines to add to a position in `css` for the line in `url` (negative
+  // for @media wrappers, the <style> tag's line for inline blocks), or
+  // null when positions don't map back to a source (style="" attributes)
+  lineOffset: number | null;
+}
+
+export interface StylesheetBudget {
+  // Maximum number of stylesheets fetched per page
+  maxStylesheets: number;
+  // Maximum @import nesting followed below a page-level stylesheet
+  maxDepth: number;
+  // Stylesheets fetched at the same time
+  concurrency: number;
+  // Time allowed for all stylesheet fetches combined
+  timeoutMs: number;
+}
+
+export const DEFAULT_STYLESHEET_BUDGET: StylesheetBudget = {
+  maxStylesheets: 40,
+  maxDepth: 4,
+  concurrency: 6,
+  timeoutMs: 8000,
+};
+
+// Fetch a stylesheet's text and final URL (after redirects), or null if it
+// can't be loaded
+export type FetchText = (url: string, signal: AbortSignal) => Promise<{ url: string; text: string } | null>;
+
+interface StylesheetRef {
+  url: string;
+  // Media query list the sheet is scoped to ('' for all media)
+  media: string;
+}
+
+interface StylesheetNode extends StylesheetRef {
+  css: string | null;
+  imports: StylesheetNode[];
+  depth: number;
+}
+
+// A page-level source of CSS, in document order
+type DocumentSheet =
+  | { kind: 'link'; node: StylesheetNode }
+  | { kind: 'style'; css: string; media: string; line: number; imports: StylesheetNode[] };
+
+// Media queries that apply on screen (print and speech-only sheets don't)
+function appliesOnScreen(media: string): boolean {
+  if (!media.trim()) return true;
+  return media
+    .split(',')
+    .some(query => !/^\s*(?:only\s+)?(?:print|speech)\b/i.test(query) && !/^\s*not\s+(?:all|screen)\b/i.test(query));
+}
+
+// Media queries that restrict a sheet at all (`all` and `screen` don't)
+function isScopedMedia(media: string): boolean {
+  return !!media.trim() && !/^\s*(?:only\s+)?(?:all|screen)\s*$/i.test(media);
+}
+
+// Lines the @media wrappers from scopeToMedia add before the CSS
+function wrapperLines(media: string[]): number {
+  return media.filter(isScopedMedia).length;
+}
+
+// Wrap CSS in the @media blocks it is scoped to, outermost first
+function scopeToMedia(css: string, media: string[]): string {
+  return media
+    .filter(isScopedMedia)
+    .reduceRight((inner, query) => `@media ${query.trim()} {\n${inner}\n}`, css);
+}
+
+// Resolve a URL against a base, keeping only http(s) URLs
+function resolveUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href.trim(), base);
+    if (!['http:', 'https:'].includes(url.protocol)) return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Remove a `name(...)` function (with nested parens) from an @import prelude
+function stripFunction(prelude: string, name: string): string {
+  const start = prelude.search(new RegExp(`\\b${name}\\(`, 'i'));
+  if (start === -1) return prelude;
+
+  let depth = 0;
+  for (let i = prelude.indexOf('(', start); i < prelude.length; i++) {
+    if (prelude[i] === '(') depth++;
+    if (prelude[i] === ')' && --depth === 0) {
+      return prelude.slice(0, start) + prelude.slice(i + 1);
+    }
+  }
+  return prelude.slice(0, start);
+}
+
+// Find the @import rules of a stylesheet, resolved against its own URL
+export function findImports(css: string, sheetUrl: string): StylesheetRef[] {
+  const imports: StylesheetRef[] = [];
+  const text = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const pattern = /@import\s+(?:url\(\s*(["']?)([^"')]*)\1\s*\)|(["'])([^"']*)\3)([^;]*);/gi;
+
+  for (const match of text.matchAll(pattern)) {
+    const url = resolveUrl(match[2] ?? match[4], sheetUrl);
+    if (!url) continue;
+
+    // Cascade layers and supports() conditions don't change which colors
+    // apply, so only the media query list is kept
+    const media = stripFunction(stripFunction(match[5], 'supports'), 'layer')
+      .replace(/^\s*layer\b/i, '')
+      .trim();
+    if (appliesOnScreen(media)) {
+      imports.push({ url, media });
+    }
+  }
+
+  return imports;
+}
+
+// A <link> or <style> found in the page
+type FoundSheet =
+  | { kind: 'link'; ref: StylesheetRef }
+  | { kind: 'style'; css: string; media: string; line: number };
+
+// Find the page's <link> stylesheets and <style> blocks in document order,
+// including preloaded stylesheets and media-scoped links
+function findDocumentSheets(html: string, baseUrl: string): FoundSheet[] {
+  const sheets: FoundSheet[] = [];
+  // Comments are blanked rather than removed so lines still match the page
+  const markup = html.replace(/<!--[\s\S]*?-->/g, comment => comment.replace(/[^\n]/g, ''));
+
+  for (const match of markup.matchAll(/<link\b[^>]*>|<style\b([^>]*)>([\s\S]*?)<\/style>/gi)) {
+    if (match[0].toLowerCase().startsWith('<style')) {
+      const media = parseAttributes(`<style${match[1]}>`).media ?? '';
+      if (appliesOnScreen(media)) {
+        const cssStart = match.index + match[0].indexOf('>') + 1;
+        const line = markup.slice(0, cssStart).split('\n').length;
+        sheets.push({ kind: 'style', css: match[2], media, line });
+      }
+      continue;
+    }
+
+    const attributes = parseAttributes(match[0]);
+    const rel = (attributes.rel ?? '').toLowerCase().split(/\s+/);
+    const isStylesheet = rel.includes('stylesheet') && !rel.includes('alternate');
+    const isPreloadedStyle = rel.includes('preload') && attributes.as?.toLowerCase() === 'style';
+    if ((!isStylesheet && !isPreloadedStyle) || 'disabled' in attributes || !attributes.href) continue;
+
+    const url = resolveUrl(attributes.href, baseUrl);
+    const media = attributes.media ?? '';
+    if (url && appliesOnScreen(media)) {
+      sheets.push({ kind: 'link', ref: { url, media } });
+    }
+  }
+
+  return sheets;
+}
+
+// Run `task` over `items` with at most `limit` in flight
+async function forEachConcurrently<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+// Discover and fetch every stylesheet a page uses: <link rel=stylesheet>,
+// preloaded styles, <style> blocks and style="" attributes, following
+// @import chains. Imports are fetched level by level, concurrently, within
+// the budget; a stylesheet reached twice (including import cycles) is only
+// fetched once. Sheets are returned in cascade order, with `extraCSS`
+// (CSS supplied alongside the page) after the page's own stylesheets.
+// `onLevel` is told the URLs of each level before they're fetched.
+export async function discoverStylesheets(
+  html: string,
+  pageUrl: string,
+  fetchText: FetchText,
+  budget: StylesheetBudget = DEFAULT_STYLESHEET_BUDGET,
+  extraCSS: string[] = [],
+  onLevel?: (urls: string[]) => void
+): Promise<Stylesheet[]> {
+  const baseUrl = findBaseUrl(html, pageUrl);
+  const seen = new Set<string>();
+  let fetchCount = 0;
+
+  const createNode = (ref: StylesheetRef, depth: number): StylesheetNode | null => {
+    if (seen.has(ref.url) || fetchCount >= budget.maxStylesheets) return null;
+    seen.add(ref.url);
+    fetchCount++;
+    return { ...ref, css: null, imports: [], depth };
+  };
+
+  const documentSheets: DocumentSheet[] = [];
+  let level: StylesheetNode[] = [];
+
+  const found: FoundSheet[] = [
+    ...findDocumentSheets(html, baseUrl),
+    ...extraCSS.map(css => ({ kind: 'style' as const, css, media: '', line: 1 })),
+  ];
+
+  for (const sheet of found) {
+    if (sheet.kind === 'link') {
+      const node = createNode(sheet.ref, 0);
+      if (node) {
+        documentSheets.push({ kind: 'link', node });
+        level.push(node);
+      }
+    } else {
+      const imports = findImports(sheet.css, baseUrl)
+        .map(ref => createNode(ref, 1))
+        .filter((node): node is StylesheetNode => node !== null);
+      documentSheets.push({ kind: 'style', css: sheet.css, media: sheet.media, line: sheet.line, imports });
+      level.push(...imports);
+    }
+  }
+
+  // Fetch one @import level at a time so every sheet's imports are known
+  // before deciding what the next level needs
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), budget.timeoutMs);
+
+  try {
+    while (level.length > 0 && !controller.signal.aborted) {
+      const nextLevel: StylesheetNode[] = [];
+      onLevel?.(level.map(node => node.url));
+
+      await forEachConcurrently(level, budget.concurrency, async node => {
+        if (controller.signal.aborted) return;
+        const fetched = await fetchText(node.url, controller.signal).catch(() => null);
+        if (!fetched) return;
+
+        // Relative imports resolve against where the sheet was served from
+        node.url = fetched.url;
+        node.css = fetched.text;
+        if (node.depth >= budget.maxDepth) return;
+
+        for (const ref of findImports(node.css, node.url)) {
+          const child = createNode(ref, node.depth + 1);
+          if (child) {
+            node.imports.push(child);
+            nextLevel.push(child);
+          }
+        }
+      });
+
+      level = nextLevel;
+    }
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  // Imported sheets come before the sheet that imports them, scoped by
+  // every media query on the way down
+  const flatten = (node: StylesheetNode, media: string[]): Stylesheet[] => {
+    if (node.css === null) return [];
+    const scope = [...media, node.media];
+    return [
+      ...node.imports.flatMap(child => flatten(child, scope)),
+      { url: node.url, css: scopeToMedia(node.css, scope), inline: false, lineOffset: -wrapperLines(scope) },
+    ];
+  };
+
+  const stylesheets = documentSheets.flatMap(sheet =>
+    sheet.kind === 'link'
+      ? flatten(sheet.node, [])
+      : [
+          ...sheet.imports.flatMap(child => flatten(child, [sheet.media])),
+          {
+            url: pageUrl,
+            css: scopeToMedia(sheet.css, [sheet.media]),
+            inline: true,
+            lineOffset: sheet.line - 1 - wrapperLines([sheet.media]),
+          },
+        ]
+  );
+
+  const inlineStyles = extractInlineStyles(html);
+  if (inlineStyles) {
+    stylesheets.push({ url: pageUrl, css: inlineStyles, inline: true, lineOffset: null });
+  }
+
+  return stylesheets;
+}
@@ -0,0 +1,206 @@
+// Body, heading and monospace font detection from a page's stylesheets
+
+import { type FontRole, type FontStyle, type Typography, splitFontStack } from '../../src/lib/typography';
+import { classifySelector } from './color-usage';
+import { splitByColorScheme } from './color-scheme';
+import type { CSSRule } from './css-parser';
+import { collectCustomProperties, substituteVars } from './custom-properties';
+
+// Hosts serving web font stylesheets meant to be linked or @imported
+const FONT_SERVICE_HOSTS = ['fonts.googleapis.com', 'fonts.bunny.net', 'use.typekit.net', 'fonts.cdnfonts.com'];
+
+// Custom properties sites name their font stacks with, per role
+const FONT_TOKENS: [FontRole, RegExp][] = [
+  ['body', /^--(?:font-(?:sans|body|base|text|primary)|font-family(?:-base|-sans-serif)?|bs-body-font-family|bs-font-sans-serif)$/],
+  ['heading', /^--(?:font-(?:heading|headings|display|title)|headings-font-family|bs-heading-font-family)$/],
+  ['mono', /^--(?:font-(?:mono|code|monospace)|font-family-monospace|bs-font-monospace)$/],
+];
+
+// Elements set in a monospace font
+const MONO_SUBJECT = /^(?:code|pre|kbd|samp)\b|\.(?:mono|code)\b/i;
+
+const FONT_SIZE = /^(?:[\d.]+(?:px|r?em|%|pt|vw|vh|ch|ex)|xx-small|x-small|small|medium|large|x-large|xx-large)$/i;
+
+interface RoleTally {
+  stacks: Map<string, number>;
+  weights: Map<number, number>;
+  sizes: Map<string, number>;
+}
+
+function tally<T>(map: Map<T, number>, key: T) {
+  map.set(key, (map.get(key) ?? 0) + 1);
+}
+
+// Most frequent key, the first seen winning ties
+function mostUsed<T>(map: Map<T, number>): T | null {
+  let best: T | null = null;
+  let bestCount = 0;
+  for (const [key, count] of map) {
+    if (count > bestCount) {
+      best = key;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Normalize a font-family value; CSS-wide keywords aren't stacks
+function normalizeStack(value: string): string | null {
+  const stack = value.replace(/\s+/g, ' ').replace(/\s*,\s*/g, ', ').trim();
+  if (!stack || /^(?:inherit|initial|unset|revert|revert-layer)$/i.test(stack) || stack.includes('var(')) {
+    return null;
+  }
+  return stack;
+}
+
+function parseWeight(value: string): number | null {
+  const keyword = value.trim().toLowerCase();
+  if (keyword === 'normal') return 400;
+  if (keyword === 'bold') return 700;
+  const weight = Number(keyword);
+  return Number.isFinite(weight) && weight >= 1 && weight <= 1000 ? weight : null;
+}
+
+// Split the `font` shorthand (`italic 600 1rem/1.5 "Inter", sans-serif`)
+// into its weight, size and family stack
+function parseFontShorthand(value: string): { weight: number | null; size: string | null; stack: string | null } {
+  const tokens = value.trim().split(/\s+/);
+  const sizeIndex = tokens.findIndex(token => FONT_SIZE.test(token.split('/')[0]));
+  if (sizeIndex === -1) return { weight: null, size: null, stack: null };
+
+  let familyStart = sizeIndex + 1;
+  // Line height written with spaces around the slash
+  if (tokens[familyStart] === '/') familyStart += 2;
+  else if (tokens[familyStart]?.startsWith('/')) familyStart += 1;
+
+  const weightToken = tokens.slice(0, sizeIndex).find(token => /^(?:[1-9]00|bold)$/i.test(token));
+  return {
+    weight: weightToken ? parseWeight(weightToken) : null,
+    size: tokens[sizeIndex].split('/')[0],
+    stack: normalizeStack(tokens.slice(familyStart).join(' ')),
+  };
+}
+
+// Roles a rule sets fonts for, judged by its selector (and, for mono,
+// also by a monospace stack)
+function ruleRoles(selector: string, stack: string | null): FontRole[] {
+  const roles = new Set<FontRole>();
+  const kinds = classifySelector(selector);
+  if (kinds.includes('root')) roles.add('body');
+  if (kinds.includes('heading')) roles.add('heading');
+
+  const subjects = selector.split(',').map(part => part.trim().split(/\s*[\s>+~]\s*/).pop() ?? '');
+  if (subjects.some(subject => MONO_SUBJECT.test(subject)) || (stack && /\bmonospace\b/i.test(stack))) {
+    roles.add('mono');
+  }
+
+  return [...roles];
+}
+
+// Tally the font stacks, weights and sizes each role is styled with
+function tallyRoles(rules: CSSRule[], props: Map<string, string>): Record<FontRole, RoleTally> {
+  const tallies = Object.fromEntries(
+    (['body', 'heading', 'mono'] as FontRole[]).map(role => [role, { stacks: new Map(), weights: new Map(), sizes: new Map() }])
+  ) as Record<FontRole, RoleTally>;
+
+  for (const rule of rules) {
+    if (rule.selector.startsWith('@')) continue;
+
+    let stack: string | null = null;
+    let weight: number | null = null;
+    let size: string | null = null;
+
+    for (const { property, value } of rule.declarations) {
+      const resolved = value.includes('var(') ? substituteVars(value, props) : value;
+      if (!resolved) continue;
+
+      if (property === 'font-family') {
+        stack = normalizeStack(resolved) ?? stack;
+      } else if (property === 'font-weight') {
+        weight = parseWeight(resolved) ?? weight;
+      } else if (property === 'font-size') {
+        size = FONT_SIZE.test(resolved.trim()) ? resolved.trim() : size;
+      } else if (property === 'font') {
+        const shorthand = parseFontShorthand(resolved);
+        stack = shorthand.stack ?? stack;
+        weight = shorthand.weight ?? weight;
+        size = shorthand.size ?? size;
+      }
+    }
+
+    if (!stack && weight === null && !size) continue;
+
+    for (const role of ruleRoles(rule.selector, stack)) {
+      if (stack) tally(tallies[role].stacks, stack);
+      if (weight !== null) tally(tallies[role].weights, weight);
+      if (size) tally(tallies[role].sizes, size);
+    }
+  }
+
+  return tallies;
+}
+
+// Font stacks declared as design tokens, per role
+function findFontTokens(props: Map<string, string>): Partial<Record<FontRole, string>> {
+  const stacks: Partial<Record<FontRole, string>> = {};
+
+  for (const [name, value] of props) {
+    const role = FONT_TOKENS.find(([, pattern]) => pattern.test(name))?.[0];
+    if (!role || stacks[role]) continue;
+
+    const resolved = value.includes('var(') ? substituteVars(value, props) : value;
+    const stack = resolved && normalizeStack(resolved);
+    if (stack) stacks[role] = stack;
+  }
+
+  return stacks;
+}
+
+function isFontServiceUrl(url: string): boolean {
+  try {
+    return FONT_SERVICE_HOSTS.includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Detect the body, heading and monospace fonts from what the page's rules
+// actually apply (falling back to font tokens), plus how the fonts load
+export function extractTypography(stylesheets: { url: string; rules: CSSRule[] }[]): Typography {
+  const rules = stylesheets.flatMap(sheet => sheet.rules);
+  const { light } = splitByColorScheme(rules);
+  const props = collectCustomProperties(light);
+  const tallies = tallyRoles(light, props);
+  const tokens = findFontTokens(props);
+
+  const style = (role: FontRole, fallbackStack: string | null = null): FontStyle | null => {
+    const stack = mostUsed(tallies[role].stacks) ?? tokens[role] ?? fallbackStack;
+    if (!stack) return null;
+    return {
+      stack,
+      family: splitFontStack(stack)[0],
+      weight: mostUsed(tallies[role].weights),
+      size: mostUsed(tallies[role].sizes),
+    };
+  };
+
+  // Font services' own @font-face rules aren't self-hosted fonts
+  const fontFaces = stylesheets
+    .filter(sheet => !isFontServiceUrl(sheet.url))
+    .flatMap(sheet => sheet.rules)
+    .filter(rule => rule.selector.toLowerCase() === '@font-face')
+    .flatMap(rule => rule.declarations.filter(d => d.property === 'font-family'))
+    .map(declaration => splitFontStack(declaration.value)[0]);
+
+  // Headings styled only by weight or size keep the body font
+  const body = style('body');
+  const headingStyled = tallies.heading.weights.size > 0 || tallies.heading.sizes.size > 0;
+
+  return {
+    body,
+    heading: style('heading', headingStyled ? body?.stack ?? null : null),
+    mono: style('mono'),
+    imports: [...new Set(stylesheets.map(sheet => sheet.url).filter(isFontServiceUrl))],
+    fontFaces: [...new Set(fontFaces)],
+  };
+}
@@ -1,120 +1,66 @@
 // Cloudflare Pages Function for extracting CSS colors from URLs
 
-interface Env {
-  // Add any bindings here if needed
-}
+import { parseCrawlOptions, parseTargetUrl, parseThirdPartyMode } from '../../src/lib/api-schema';
+import { type Env, CORS_HEADERS, allowsPrivateHosts, errorResponse, jsonResponse, limitClient } from '../_lib/api';
+import { extractFromDocument, extractFromUrl, postedPageUrl } from '../_lib/extract-request';
+import { readExtractInput } from '../_lib/request-body';
 
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const url = new URL(context.request.url);
   const targetUrl = url.searchParams.get('url');
+  const bypassCache = url.searchParams.get('fresh') === '1';
 
-  // CORS headers
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
-  };
-
-  if (!targetUrl) {
-    return new Response(
-      JSON.stringify({ error: 'Missing url parameter' }),
-      {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  }
+  const { headers: corsHeaders, rejection } = await limitClient(context.request, context.env);
+  if (rejection) return rejection;
 
   try {
-    // Validate URL
-    const parsedUrl = new URL(targetUrl);
-    if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
-      throw new Error('Invalid URL protocol');
-    }
-
-    // Fetch the page
-    const response = await fetch(targetUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; ThemeGrab/1.0)',
-        'Accept': 'text/html,text/css,*/*',
-      },
+    const { result, cacheStatus, ageSeconds } = await extractFromUrl(parseTargetUrl(targetUrl), context.env, {
+      bypassCache,
+      crawl: parseCrawlOptions(url.searchParams),
+      thirdParty: parseThirdPartyMode(url.searchParams),
+      debug: url.searchParams.get('debug') === '1',
+      waitUntil: promise => context.waitUntil(promise),
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch: ${response.status}`);
-    }
-
-    const html = await response.text();
-
-    // Extract inline styles and linked stylesheets
-    const cssContent: string[] = [html];
-
-    // Find linked stylesheets
-    const stylesheetRegex = /<link[^>]+rel=["']stylesheet["'][^>]+href=["']([^"']+)["']/gi;
-    const styleMatches = html.matchAll(stylesheetRegex);
-
-    for (const match of styleMatches) {
-      const href = match[1];
-      try {
-        const cssUrl = new URL(href, targetUrl).toString();
-        const cssResponse = await fetch(cssUrl, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (compatible; ThemeGrab/1.0)',
-          },
-        });
-        if (cssResponse.ok) {
-          cssContent.push(await cssResponse.text());
-        }
-      } catch {
-        // Skip failed stylesheet fetches
-      }
-    }
-
-    // Extract colors from all CSS content
-    const combinedCSS = cssContent.join('\n');
-    const colors: string[] = [];
-    const colorPatterns = [
-      /#[a-fA-F0-9]{6}\b/g,
-      /#[a-fA-F0-9]{3}\b/g,
-      /rgba?\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*(?:,\s*[\d.]+\s*)?\)/gi,
-      /hsla?\(\s*[\d.]+\s*,\s*[\d.]+%?\s*,\s*[\d.]+%?\s*(?:,\s*[\d.]+\s*)?\)/gi,
-    ];
-
-    for (const pattern of colorPatterns) {
-      const matches = combinedCSS.match(pattern);
-      if (matches) {
-        colors.push(...matches);
-      }
-    }
+    return jsonResponse(result, 200, {
+      ...corsHeaders,
+      'X-Cache': cacheStatus,
+      'Age': String(ageSeconds),
+    });
+  } catch (error) {
+    return errorResponse(error, corsHeaders);
+  }
+};
 
-    // Deduplicate colors
-    const uniqueColors = [...new Set(colors.map(c => c.toLowerCase()))];
+// Extract from HTML and/or CSS sent in the request body, for pages the
+// worker can't reach (behind auth, staging builds, local files). Linked
+// stylesheets are still fetched when they resolve to public URLs; pass the
+// page's URL as a `url` field or query parameter to resolve relative ones.
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { headers: corsHeaders, rejection } = await limitClient(context.request, context.env);
+  if (rejection) return rejection;
 
-    return new Response(
-      JSON.stringify({ colors: uniqueColors, css: combinedCSS }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+  try {
+    const params = new URL(context.request.url).searchParams;
+    const thirdParty = parseThirdPartyMode(params);
+    const input = await readExtractInput(context.request);
+    const allowPrivateHosts = allowsPrivateHosts(context.env);
+    const pageUrl = postedPageUrl(input.url ?? params.get('url'), allowPrivateHosts);
+
+    const result = await extractFromDocument(input.html, pageUrl, {
+      css: input.css,
+      thirdParty,
+      debug: params.get('debug') === '1',
+      allowPrivateHosts,
+    });
+    return jsonResponse(result, 200, corsHeaders);
   } catch (error) {
-    return new Response(
-      JSON.stringify({
-        error: error instanceof Error ? error.message : 'Failed to extract colors',
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return errorResponse(error, corsHeaders);
   }
 };
 
 export const onRequestOptions: PagesFunction<Env> = async () => {
   return new Response(null, {
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
+    headers: CORS_HEADERS,
   });
 };
@@ -0,0 +1,58 @@
+// Cloudflare Pages Function streaming an extraction's progress as
+// Server-Sent Events, for pages that take a while
+
+import {
+  type CrawlOptions,
+  type ThirdPartyMode,
+  parseCrawlOptions,
+  parseTargetUrl,
+  parseThirdPartyMode,
+} from '../../../src/lib/api-schema';
+import { type Env, CORS_HEADERS, allowsPrivateHosts, errorResponse, eventStreamResponse, limitClient } from '../../_lib/api';
+import { extractFromUrl } from '../../_lib/extract-request';
+import { validateUrl } from '../../_lib/safe-fetch';
+
+// Takes the same options as GET /api/extract. Invalid requests get a JSON
+// error response; once the stream starts it sends `progress` events, then
+// a `result` event with the extract response or an `error` event.
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const url = new URL(context.request.url);
+
+  const { headers: corsHeaders, rejection } = await limitClient(context.request, context.env);
+  if (rejection) return rejection;
+
+  let targetUrl: string;
+  let crawl: CrawlOptions;
+  let thirdParty: ThirdPartyMode;
+  try {
+    targetUrl = parseTargetUrl(url.searchParams.get('url'));
+    // Refuse invalid and private targets before the stream starts, so they
+    // get an error status rather than an error event
+    validateUrl(targetUrl, undefined, allowsPrivateHosts(context.env));
+    crawl = parseCrawlOptions(url.searchParams);
+    thirdParty = parseThirdPartyMode(url.searchParams);
+  } catch (error) {
+    return errorResponse(error, corsHeaders);
+  }
+
+  const { response, done } = eventStreamResponse(async send => {
+    const { result } = await extractFromUrl(targetUrl, context.env, {
+      crawl,
+      thirdParty,
+      bypassCache: url.searchParams.get('fresh') === '1',
+      debug: url.searchParams.get('debug') === '1',
+      onProgress: progress => send('progress', progress),
+      waitUntil: promise => context.waitUntil(promise),
+    });
+    send('result', result);
+  }, corsHeaders);
+
+  context.waitUntil(done);
+  return response;
+};
+
+export const onRequestOptions: PagesFunction<Env> = async () => {
+  return new Response(null, {
+    headers: CORS_HEADERS,
+  });
+};
@@ -0,0 +1,12 @@
+// Cloudflare Pages Function serving the OpenAPI description of the API
+
+import { type Env, CORS_HEADERS, jsonResponse } from '../_lib/api';
+import { buildOpenApiDocument } from '../_lib/openapi';
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const origin = new URL(context.request.url).origin;
+  return jsonResponse(buildOpenApiDocument(origin), 200, {
+    ...CORS_HEADERS,
+    'Cache-Control': 'public, max-age=3600',
+  });
+};
@@ -0,0 +1,114 @@
+// Cloudflare Pages Function that extracts a page and generates the theme
+// server-side, returning it rendered in the requested format
+
+import {
+  type ExtractResponse,
+  type ThemeOptions,
+  type ThemeResponse,
+  API_VERSION,
+  ApiError,
+  parseCrawlOptions,
+  parseTargetUrl,
+  parseThemeOptions,
+  parseThirdPartyMode,
+} from '../../src/lib/api-schema';
+import { extractColorsFromCSS } from '../../src/lib/color-utils';
+import { renderTheme } from '../../src/lib/theme-formats';
+import { generateTheme } from '../../src/lib/theme-generator';
+import { type Env, CORS_HEADERS, allowsPrivateHosts, errorResponse, jsonResponse, limitClient } from '../_lib/api';
+import { extractFromDocument, extractFromUrl, postedPageUrl } from '../_lib/extract-request';
+import { readExtractInput } from '../_lib/request-body';
+
+// Build the theme from an extraction and answer with it: JSON with the theme
+// and rendered output by default, or just the output with `raw=1`
+function themeResponse(result: ExtractResponse, options: ThemeOptions, headers: Record<string, string>): Response {
+  // Same fallback as the browser: scan the raw CSS if no colors were found
+  const colors = result.colors.length > 0 ? result.colors : extractColorsFromCSS(result.css);
+  if (colors.length === 0) {
+    throw new ApiError('NO_COLORS', 'No colors found on this page');
+  }
+
+  const theme = generateTheme(colors, {
+    tokens: result.tokens,
+    usage: result.usage,
+    dark: result.dark,
+    declared: result.declared,
+    weights: result.weights,
+    typography: result.typography,
+    shape: result.shape,
+    framework: result.framework,
+    preserveAlpha: options.preserveAlpha,
+    contrastTarget: options.contrast === 'none' ? null : options.contrast,
+  });
+  const rendered = renderTheme(theme, options.format);
+
+  if (options.raw) {
+    return new Response(rendered.output, {
+      headers: {
+        ...headers,
+        'Content-Type': `${rendered.contentType}; charset=utf-8`,
+        'Content-Disposition': `inline; filename="${rendered.filename}"`,
+        'X-API-Version': API_VERSION,
+      },
+    });
+  }
+
+  const body: ThemeResponse = { theme, format: options.format, output: rendered.output, stylesheets: result.stylesheets };
+  return jsonResponse(body, 200, headers);
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const params = new URL(context.request.url).searchParams;
+
+  const { headers: corsHeaders, rejection } = await limitClient(context.request, context.env);
+  if (rejection) return rejection;
+
+  try {
+    const targetUrl = parseTargetUrl(params.get('url'));
+    const options = parseThemeOptions(params);
+    const { result, cacheStatus, ageSeconds } = await extractFromUrl(targetUrl, context.env, {
+      bypassCache: params.get('fresh') === '1',
+      crawl: parseCrawlOptions(params),
+      thirdParty: parseThirdPartyMode(params),
+      waitUntil: promise => context.waitUntil(promise),
+    });
+
+    return themeResponse(result, options, {
+      ...corsHeaders,
+      'X-Cache': cacheStatus,
+      'Age': String(ageSeconds),
+    });
+  } catch (error) {
+    return errorResponse(error, corsHeaders);
+  }
+};
+
+// Generate a theme from HTML and/or CSS in the request body (same body
+// formats as POST /api/extract); options stay in the query string
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const params = new URL(context.request.url).searchParams;
+
+  const { headers: corsHeaders, rejection } = await limitClient(context.request, context.env);
+  if (rejection) return rejection;
+
+  try {
+    const options = parseThemeOptions(params);
+    const thirdParty = parseThirdPartyMode(params);
+    const input = await readExtractInput(context.request);
+    const allowPrivateHosts = allowsPrivateHosts(context.env);
+    const result = await extractFromDocument(input.html, postedPageUrl(input.url ?? params.get('url'), allowPrivateHosts), {
+      css: input.css,
+      thirdParty,
+      allowPrivateHosts,
+    });
+    return themeResponse(result, options, corsHeaders);
+  } catch (error) {
+    return errorResponse(error, corsHeaders);
+  }
+};
+
+export const onRequestOptions: PagesFunction<Env> = async () => {
+  return new Response(null, {
+    headers: CORS_HEADERS,
+  });
+};
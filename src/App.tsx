@@ -1,74 +1,86 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { UrlInput } from '@/components/url-input';
 import { ScreenshotUpload } from '@/components/screenshot-upload';
 import { ThemeOutput } from '@/components/theme-output';
 import { ThemePreview } from '@/components/theme-preview';
+import { AccessibilityReport } from '@/components/accessibility-report';
+import { ExtractionProgress } from '@/components/extraction-progress';
+import { ThemeExplanation } from '@/components/theme-explanation';
 import { extractColorsFromCSS } from '@/lib/color-utils';
+import { type ColorOrigin, type ExtractProgress, ApiError } from '@/lib/api-schema';
+import { errorMessage, streamExtraction } from '@/lib/api-client';
 import { generateTheme, generateThemeFromRGB, type ExtractedTheme } from '@/lib/theme-generator';
-import type { RGB } from '@/lib/color-utils';
+import type { RGBA } from '@/lib/color-utils';
 import { Palette, Github } from 'lucide-react';
 
+// Opening the app with ?debug=1 asks the API where each color was written
+const debug = new URLSearchParams(window.location.search).get('debug') === '1';
+
 function App() {
   const [theme, setTheme] = useState<ExtractedTheme | null>(null);
+  const [provenance, setProvenance] = useState<Record<string, ColorOrigin[]> | undefined>();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Steps the API has reported for the extraction in flight
+  const [progress, setProgress] = useState<ExtractProgress[] | null>(null);
+  const abortController = useRef<AbortController | null>(null);
 
   const handleUrlExtract = async (url: string) => {
+    const controller = new AbortController();
+    abortController.current = controller;
     setIsLoading(true);
     setError(null);
+    setProgress([]);
 
     try {
-      let colors: string[] = [];
-
-      // In production, use our Cloudflare Pages function
-      // In development, use a CORS proxy
-      if (import.meta.env.DEV) {
-        // Use allorigins CORS proxy for development
-        const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-        const response = await fetch(proxyUrl);
-
-        if (!response.ok) {
-          throw new Error('Failed to fetch website');
-        }
-
-        const html = await response.text();
-        colors = extractColorsFromCSS(html);
-      } else {
-        // Use our API in production
-        const apiUrl = `/api/extract?url=${encodeURIComponent(url)}`;
-        const response = await fetch(apiUrl);
-
-        if (!response.ok) {
-          throw new Error('Failed to fetch website');
-        }
-
-        const data = await response.json();
+      // The Pages Function does the fetching, in development too (the dev
+      // server mounts functions/api)
+      const data = await streamExtraction(url, {
+        debug,
+        signal: controller.signal,
+        onProgress: step => setProgress(steps => [...(steps ?? []), step]),
+      });
 
-        if (data.error) {
-          throw new Error(data.error);
-        }
-
-        colors = data.colors?.length > 0
-          ? data.colors
-          : extractColorsFromCSS(data.css || '');
-      }
+      const colors = data.colors.length > 0
+        ? data.colors
+        : extractColorsFromCSS(data.css);
 
       if (colors.length === 0) {
-        throw new Error('No colors found on this page. Try uploading a screenshot instead.');
+        throw new ApiError('NO_COLORS', 'No colors found on this page');
       }
 
-      const extractedTheme = generateTheme(colors);
+      const extractedTheme = generateTheme(colors, {
+        tokens: data.tokens,
+        usage: data.usage,
+        dark: data.dark,
+        declared: data.declared,
+        weights: data.weights,
+        typography: data.typography,
+        shape: data.shape,
+        framework: data.framework,
+        explain: true,
+      });
       setTheme(extractedTheme);
+      setProvenance(data.provenance);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to extract theme');
+      // Cancelling isn't an error worth showing
+      if (!controller.signal.aborted) {
+        setError(errorMessage(err));
+      }
     } finally {
+      abortController.current = null;
       setIsLoading(false);
+      setProgress(null);
     }
   };
 
-  const handleImageColorsExtracted = (colors: RGB[]) => {
+  const handleCancel = () => {
+    abortController.current?.abort();
+  };
+
+  const handleImageColorsExtracted = (colors: RGBA[]) => {
     if (colors.length === 0) {
       setError('No colors could be extracted from the image');
       return;
@@ -76,6 +88,7 @@ function App() {
 
     const extractedTheme = generateThemeFromRGB(colors);
     setTheme(extractedTheme);
+    setProvenance(undefined);
     setError(null);
   };
 
@@ -143,6 +156,10 @@ function App() {
                 </TabsContent>
               </Tabs>
 
+              {progress && (
+                <ExtractionProgress steps={progress} onCancel={handleCancel} />
+              )}
+
               {error && (
                 <div className="mt-4 p-4 rounded-lg bg-destructive/10 text-destructive text-sm">
                   {error}
@@ -177,6 +194,32 @@ function App() {
                   <ThemePreview theme={theme} />
                 </CardContent>
               </Card>
+
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>Accessibility</CardTitle>
+                  <CardDescription>
+                    WCAG 2 and APCA contrast for every token pair
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AccessibilityReport theme={theme} />
+                </CardContent>
+              </Card>
+
+              {theme.explanation && (
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle>Explain</CardTitle>
+                    <CardDescription>
+                      Why each role got its color
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ThemeExplanation theme={theme} provenance={provenance} />
+                  </CardContent>
+                </Card>
+              )}
             </div>
           )}
 
@@ -0,0 +1,121 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Check, X } from 'lucide-react';
+import { type ExtractedTheme, type ThemeColors, toVarName } from '@/lib/theme-generator';
+import {
+  type ContrastUse,
+  type PairScore,
+  APCA_THRESHOLDS,
+  WCAG_THRESHOLDS,
+  scoreThemeContrast,
+} from '@/lib/contrast';
+
+interface AccessibilityReportProps {
+  theme: ExtractedTheme | null;
+}
+
+const USES: { use: ContrastUse; label: string }[] = [
+  { use: 'body', label: 'Body text' },
+  { use: 'large', label: 'Large text' },
+  { use: 'ui', label: 'UI' },
+];
+
+function PassMark({ passes, label }: { passes: boolean | undefined; label: string }) {
+  if (passes === undefined) {
+    return <span className="text-muted-foreground">–</span>;
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-0.5 ${passes ? 'text-muted-foreground' : 'text-destructive'}`}
+      title={`${label}: ${passes ? 'pass' : 'fail'}`}
+    >
+      {passes ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+      {label}
+    </span>
+  );
+}
+
+function ScoreTable({ colors }: { colors: ThemeColors }) {
+  const scores: PairScore[] = scoreThemeContrast(colors);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-2 pr-2 font-medium">Pair</th>
+            <th className="py-2 pr-2 font-medium">WCAG 2</th>
+            <th className="py-2 pr-2 font-medium">APCA</th>
+            {USES.map(({ use, label }) => (
+              <th key={use} className="py-2 pr-2 font-medium">{label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {scores.map(score => {
+            const failing = score.uses.some(use => !score.wcagPasses[use] || !score.apcaPasses[use]);
+            return (
+              <tr key={`${score.background}-${score.foreground}`} className="border-b last:border-0">
+                <td className="py-2 pr-2">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="flex h-5 w-8 items-center justify-center rounded-sm border text-[10px] font-semibold"
+                      style={{
+                        backgroundColor: `hsl(${colors[score.background]})`,
+                        color: `hsl(${colors[score.foreground]})`,
+                      }}
+                    >
+                      Aa
+                    </div>
+                    <span className={`font-mono ${failing ? 'text-destructive' : ''}`}>
+                      {toVarName(score.foreground)}
+                    </span>
+                  </div>
+                </td>
+                <td className="py-2 pr-2 font-mono">{score.wcag.toFixed(2)}:1</td>
+                <td className="py-2 pr-2 font-mono">Lc {score.apca.toFixed(1)}</td>
+                {USES.map(({ use }) => (
+                  <td key={use} className="py-2 pr-2">
+                    <div className="flex gap-2">
+                      <PassMark passes={score.wcagPasses[use]} label="W" />
+                      <PassMark passes={score.apcaPasses[use]} label="A" />
+                    </div>
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function AccessibilityReport({ theme }: AccessibilityReportProps) {
+  if (!theme) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Tabs defaultValue="light" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="light">Light</TabsTrigger>
+          <TabsTrigger value="dark">Dark</TabsTrigger>
+        </TabsList>
+        <TabsContent value="light">
+          <ScoreTable colors={theme.light} />
+        </TabsContent>
+        <TabsContent value="dark">
+          <ScoreTable colors={theme.dark} />
+        </TabsContent>
+      </Tabs>
+
+      <p className="text-xs text-muted-foreground">
+        W = WCAG 2 (body {WCAG_THRESHOLDS.body}:1, large text and UI {WCAG_THRESHOLDS.large}:1).
+        A = APCA (body Lc {APCA_THRESHOLDS.body}, large text Lc {APCA_THRESHOLDS.large}, UI Lc {APCA_THRESHOLDS.ui}).
+        Border, input and ring are checked against the background as UI components only.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { Button } from '@/components/ui/button';
+import { Check, X } from 'lucide-react';
+import type { ExtractProgress } from '@/lib/api-schema';
+
+interface ExtractionProgressProps {
+  steps: ExtractProgress[];
+  onCancel: () => void;
+}
+
+// Last path segment of a URL, or its host for the site root
+function shortName(url: string) {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return pathname.split('/').filter(Boolean).pop() ?? hostname;
+  } catch {
+    return url;
+  }
+}
+
+function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function describe(step: ExtractProgress) {
+  switch (step.step) {
+    case 'page':
+      return `Fetched page ${step.url}`;
+    case 'stylesheets':
+      return `Found ${plural(step.urls.length, 'stylesheet')}`;
+    case 'stylesheet':
+      return `${step.ok ? 'Fetched' : "Couldn't fetch"} ${shortName(step.url)} · ${plural(step.colors, 'color')} so far`;
+    case 'extracted':
+      return `Extracted ${plural(step.colors, 'color')}`;
+  }
+}
+
+export function ExtractionProgress({ steps, onCancel }: ExtractionProgressProps) {
+  return (
+    <div className="mt-4 space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate text-sm font-medium">
+          {steps.length > 0 ? describe(steps[steps.length - 1]) : 'Fetching page...'}
+        </span>
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+
+      {steps.length > 0 && (
+        <ol className="max-h-48 space-y-1 overflow-y-auto text-xs text-muted-foreground" aria-live="polite">
+          {steps.map((step, index) => (
+            <li key={index} className="flex items-center gap-2">
+              {step.step === 'stylesheet' && !step.ok
+                ? <X className="h-3 w-3 shrink-0 text-destructive" />
+                : <Check className="h-3 w-3 shrink-0" />}
+              <span className="truncate">{describe(step)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -2,10 +2,10 @@ import { useCallback, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Upload, ImageIcon, Loader2, X } from 'lucide-react';
 import { extractColorsFromImageData } from '@/lib/color-utils';
-import type { RGB } from '@/lib/color-utils';
+import type { RGBA } from '@/lib/color-utils';
 
 interface ScreenshotUploadProps {
-  onColorsExtracted: (colors: RGB[]) => void;
+  onColorsExtracted: (colors: RGBA[]) => void;
   isLoading: boolean;
   setIsLoading: (loading: boolean) => void;
 }
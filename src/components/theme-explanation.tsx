@@ -0,0 +1,173 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { ColorOrigin } from '@/lib/api-schema';
+import {
+  type ExtractedTheme,
+  type HueGroupScore,
+  type RoleExplanation,
+  type ThemeColors,
+  toVarName,
+} from '@/lib/theme-generator';
+
+interface ThemeExplanationProps {
+  theme: ExtractedTheme | null;
+  // Where each color was written, from /api/extract?debug=1
+  provenance?: Record<string, ColorOrigin[]>;
+}
+
+// Origins listed per role; the API keeps more
+const ORIGINS_SHOWN = 3;
+
+function Swatch({ color, title }: { color: string; title?: string }) {
+  return <span className="inline-block h-4 w-4 shrink-0 rounded-sm border" style={{ backgroundColor: color }} title={title} />;
+}
+
+function formatOrigin(origin: ColorOrigin) {
+  const position = origin.line !== null ? `:${origin.line}${origin.column !== null ? `:${origin.column}` : ''}` : '';
+  return `${origin.url}${position}`;
+}
+
+function Origins({ origins }: { origins: ColorOrigin[] }) {
+  return (
+    <ul className="space-y-0.5 text-muted-foreground">
+      {origins.slice(0, ORIGINS_SHOWN).map((origin, index) => (
+        <li key={index} className="font-mono break-all">
+          {formatOrigin(origin)} <span className="text-foreground">{origin.selector}</span> {origin.property}
+        </li>
+      ))}
+      {origins.length > ORIGINS_SHOWN && <li>and {origins.length - ORIGINS_SHOWN} more</li>}
+    </ul>
+  );
+}
+
+function RoleTable({
+  colors,
+  roles,
+  provenance,
+}: {
+  colors: ThemeColors;
+  roles: Record<keyof ThemeColors, RoleExplanation>;
+  provenance?: Record<string, ColorOrigin[]>;
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-2 pr-2 font-medium">Role</th>
+            <th className="py-2 pr-2 font-medium">Reason</th>
+            <th className="py-2 pr-2 font-medium">Candidates</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(roles) as (keyof ThemeColors)[]).map(role => {
+            const { reason, source, candidates } = roles[role];
+            const origins = source ? provenance?.[source] : undefined;
+            return (
+              <tr key={role} className="border-b align-top last:border-0">
+                <td className="py-2 pr-2">
+                  <div className="flex items-center gap-2">
+                    <Swatch color={`hsl(${colors[role]})`} />
+                    <span className="font-mono">{toVarName(role)}</span>
+                  </div>
+                </td>
+                <td className="py-2 pr-2 space-y-1">
+                  <div className="flex items-center gap-2">
+                    {source && <Swatch color={source} title={source} />}
+                    <span>{reason}</span>
+                  </div>
+                  {origins && <Origins origins={origins} />}
+                </td>
+                <td className="py-2 pr-2">
+                  <ol className="space-y-0.5">
+                    {candidates.map(candidate => (
+                      <li
+                        key={candidate.label}
+                        className={`flex items-center gap-1.5 ${candidate.color ? '' : 'text-muted-foreground'}`}
+                      >
+                        {candidate.color ? <Swatch color={candidate.color} title={candidate.color} /> : <span className="w-4 text-center">–</span>}
+                        {candidate.label}
+                      </li>
+                    ))}
+                  </ol>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function HueGroupTable({ groups }: { groups: HueGroupScore[] }) {
+  if (groups.length === 0) {
+    return <p className="text-xs text-muted-foreground">No saturated colors to group by hue.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-2 pr-2 font-medium">Hue</th>
+            <th className="py-2 pr-2 font-medium">Colors</th>
+            <th className="py-2 pr-2 font-medium">Frequency</th>
+            <th className="py-2 pr-2 font-medium">Saturation</th>
+            <th className="py-2 pr-2 font-medium">UI penalty</th>
+            <th className="py-2 pr-2 font-medium">Score</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map(group => (
+            <tr key={group.hue} className="border-b last:border-0">
+              <td className="py-2 pr-2 font-mono">{group.hue}°</td>
+              <td className="py-2 pr-2">
+                <div className="flex gap-1">
+                  {group.colors.map(color => <Swatch key={color} color={color} title={color} />)}
+                </div>
+              </td>
+              <td className="py-2 pr-2 font-mono">{group.frequency}</td>
+              <td className="py-2 pr-2 font-mono">{group.saturation}%</td>
+              <td className="py-2 pr-2 font-mono">×{group.uiPenalty}</td>
+              <td className="py-2 pr-2 font-mono">{group.score}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function ThemeExplanation({ theme, provenance }: ThemeExplanationProps) {
+  const explanation = theme?.explanation;
+  if (!theme || !explanation) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Tabs defaultValue="light" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="light">Light</TabsTrigger>
+          <TabsTrigger value="dark">Dark</TabsTrigger>
+          <TabsTrigger value="hues">Hue analysis</TabsTrigger>
+        </TabsList>
+        <TabsContent value="light">
+          <RoleTable colors={theme.light} roles={explanation.light} provenance={provenance} />
+        </TabsContent>
+        <TabsContent value="dark">
+          <RoleTable colors={theme.dark} roles={explanation.dark} provenance={provenance} />
+        </TabsContent>
+        <TabsContent value="hues">
+          <HueGroupTable groups={explanation.hueGroups} />
+        </TabsContent>
+      </Tabs>
+
+      <p className="text-xs text-muted-foreground">
+        Candidates are tried in order and the first with a color wins. Hue groups are scored by frequency
+        and saturation, with likely error and warning colors penalized; the best group feeds the primary color.
+        {!provenance && ' Open this page with ?debug=1 to see where each color was written.'}
+      </p>
+    </div>
+  );
+}
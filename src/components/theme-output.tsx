@@ -2,7 +2,8 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Check, Copy, Download } from 'lucide-react';
 import type { ExtractedTheme } from '@/lib/theme-generator';
-import { generateCSSOutput } from '@/lib/theme-generator';
+import { ROLE_TOKEN_NAMES, generateCSSOutput, toVarName } from '@/lib/theme-generator';
+import { FRAMEWORK_NAMES } from '@/lib/frameworks';
 
 interface ThemeOutputProps {
   theme: ExtractedTheme | null;
@@ -23,6 +24,16 @@ export function ThemeOutput({ theme }: ThemeOutputProps) {
 
   const cssOutput = generateCSSOutput(theme);
 
+  const contrastFixes = theme.contrastReport
+    ? [
+        ...theme.contrastReport.light.map(check => ({ mode: 'light', ...check })),
+        ...theme.contrastReport.dark.map(check => ({ mode: 'dark', ...check })),
+      ].filter(check => check.adjusted || !check.passes)
+    : [];
+  const contrastUnit = theme.contrastReport?.target.standard === 'apca' ? 'Lc ' : '';
+  const contrastSuffix = theme.contrastReport?.target.standard === 'apca' ? '' : ':1';
+  const mappedRoles = theme.framework ? Object.keys(theme.framework.light).length : 0;
+
   const handleCopy = async () => {
     await navigator.clipboard.writeText(cssOutput);
     setCopied(true);
@@ -44,6 +55,12 @@ export function ThemeOutput({ theme }: ThemeOutputProps) {
   return (
     <div className="space-y-4">
       <div className="flex justify-end gap-2">
+        {theme.framework && (
+          <span className="mr-auto self-center text-xs text-muted-foreground">
+            Built with {FRAMEWORK_NAMES[theme.framework.id]}
+            {mappedRoles > 0 && ` · ${mappedRoles} of ${Object.keys(ROLE_TOKEN_NAMES).length} roles read from its variables`}
+          </span>
+        )}
         <Button variant="outline" size="sm" onClick={handleDownload}>
           <Download className="h-4 w-4 mr-2" />
           Download
@@ -72,14 +89,16 @@ export function ThemeOutput({ theme }: ThemeOutputProps) {
       {theme.colorDetails && theme.colorDetails.length > 0 && (
         <div className="space-y-2">
           <h4 className="text-sm font-medium text-muted-foreground">
-            Extracted Colors (sorted by frequency)
+            Extracted Colors (sorted by usage)
           </h4>
           <div className="flex flex-wrap gap-2">
             {theme.colorDetails.map((colorInfo, i) => (
               <div
                 key={i}
                 className="flex items-center gap-2 rounded-md border bg-background px-2 py-1"
-                title={`Hue: ${colorInfo.hue}°, Found ${colorInfo.frequency}x`}
+                title={`Hue: ${colorInfo.hue}°, Weight ${colorInfo.frequency}${
+                  colorInfo.sources ? `, declared in ${colorInfo.sources.join(', ')}` : ''
+                }`}
               >
                 <div
                   className="h-4 w-4 rounded-sm border"
@@ -87,11 +106,37 @@ export function ThemeOutput({ theme }: ThemeOutputProps) {
                 />
                 <span className="text-xs font-mono">{colorInfo.hex}</span>
                 <span className="text-xs text-muted-foreground">({colorInfo.frequency}x)</span>
+                {colorInfo.sources?.map(source => (
+                  <span key={source} className="rounded-sm bg-muted px-1 text-[10px] text-muted-foreground">
+                    {source}
+                  </span>
+                ))}
               </div>
             ))}
           </div>
         </div>
       )}
+
+      {contrastFixes.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">
+            Contrast adjustments (target {contrastUnit}{theme.contrastReport!.target.minimum}{contrastSuffix})
+          </h4>
+          <ul className="space-y-1 text-xs">
+            {contrastFixes.map((check, i) => (
+              <li key={i} className="flex items-center justify-between gap-2 rounded-md border px-2 py-1">
+                <span className="font-mono">
+                  {check.mode === 'dark' ? '.dark ' : ''}{toVarName(check.foreground)} on {toVarName(check.background)}
+                </span>
+                <span className={check.passes ? 'text-muted-foreground' : 'text-destructive'}>
+                  {contrastUnit}{check.original}{contrastSuffix} → {contrastUnit}{check.corrected}{contrastSuffix}
+                  {!check.passes && ' (could not meet target)'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -4,12 +4,26 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Moon, Sun } from 'lucide-react';
 import type { ExtractedTheme, ThemeColors } from '@/lib/theme-generator';
+import type { ShapeTokens } from '@/lib/shape-tokens';
+import { type Typography, withFallback } from '@/lib/typography';
 
 interface ThemePreviewProps {
   theme: ExtractedTheme | null;
 }
 
-function PreviewCard({ colors }: { colors: ThemeColors }) {
+function PreviewCard({
+  colors,
+  typography,
+  shape,
+}: {
+  colors: ThemeColors;
+  typography?: Typography;
+  shape?: ShapeTokens;
+}) {
+  const body = typography?.body;
+  const heading = typography?.heading ?? body;
+  const mono = typography?.mono;
+
   // Create inline styles from theme colors
   const style = {
     '--background': colors.background,
@@ -29,6 +43,9 @@ function PreviewCard({ colors }: { colors: ThemeColors }) {
     '--border': colors.border,
     '--input': colors.input,
     '--ring': colors.ring,
+    // Rounded and spacing utilities inside the preview resolve against these
+    ...(shape?.radius && { '--radius': shape.radius }),
+    ...(shape?.spacing && { '--spacing': shape.spacing }),
   } as React.CSSProperties;
 
   return (
@@ -37,18 +54,32 @@ function PreviewCard({ colors }: { colors: ThemeColors }) {
         ...style,
         backgroundColor: `hsl(${colors.background})`,
         color: `hsl(${colors.foreground})`,
+        fontFamily: body ? withFallback(body.stack, 'body') : undefined,
       }}
       className="rounded-lg p-4"
     >
+      {/* Load the site's web fonts; React hoists these into <head> */}
+      {typography?.imports.map(url => (
+        <link key={url} rel="stylesheet" href={url} precedence="default" />
+      ))}
       <Card
         style={{
           backgroundColor: `hsl(${colors.card})`,
           borderColor: `hsl(${colors.border})`,
           color: `hsl(${colors.cardForeground})`,
+          boxShadow: shape?.shadows.md ?? shape?.shadows.sm ?? undefined,
         }}
       >
         <CardHeader className="pb-3">
-          <CardTitle className="text-lg">Preview Card</CardTitle>
+          <CardTitle
+            className="text-lg"
+            style={{
+              fontFamily: heading ? withFallback(heading.stack, 'heading') : undefined,
+              fontWeight: heading?.weight ?? undefined,
+            }}
+          >
+            Preview Card
+          </CardTitle>
           <CardDescription
             style={{ color: `hsl(${colors.mutedForeground})` }}
           >
@@ -102,6 +133,14 @@ function PreviewCard({ colors }: { colors: ThemeColors }) {
             >
               This is muted content area
             </p>
+            {mono && (
+              <code
+                className="mt-1 block text-xs"
+                style={{ fontFamily: withFallback(mono.stack, 'mono'), color: `hsl(${colors.mutedForeground})` }}
+              >
+                npx shadcn@latest init
+              </code>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -120,7 +159,19 @@ export function ThemePreview({ theme }: ThemePreviewProps) {
 
   return (
     <div className="space-y-4">
-      <div className="flex justify-end">
+      <div className="flex items-center justify-end gap-3">
+        {theme.typography?.body && (
+          <span className="mr-auto text-xs text-muted-foreground">
+            {theme.typography.body.family}
+            {theme.typography.heading && theme.typography.heading.family !== theme.typography.body.family &&
+              ` / ${theme.typography.heading.family} headings`}
+          </span>
+        )}
+        {mode === 'dark' && (
+          <span className="text-xs text-muted-foreground">
+            {theme.darkSource === 'site' ? "From the site's dark mode" : 'Derived from the light palette'}
+          </span>
+        )}
         <Button
           variant="outline"
           size="sm"
@@ -140,7 +191,7 @@ export function ThemePreview({ theme }: ThemePreviewProps) {
         </Button>
       </div>
 
-      <PreviewCard colors={colors} />
+      <PreviewCard colors={colors} typography={theme.typography} shape={theme.shape} />
     </div>
   );
 }
@@ -0,0 +1,124 @@
+// Browser client for the /api functions
+
+import {
+  type ErrorCode,
+  type ExtractProgress,
+  type ExtractResponse,
+  ApiError,
+  parseErrorBody,
+  parseExtractProgress,
+  parseExtractResponse,
+} from './api-schema';
+
+// What to tell the user for each error code
+export const ERROR_MESSAGES: Record<ErrorCode, string> = {
+  MISSING_URL: 'Enter a URL to extract a theme from.',
+  INVALID_URL: "That doesn't look like a valid http(s) URL.",
+  BLOCKED_HOST: "Local and private network addresses can't be fetched. Try a public URL or upload a screenshot.",
+  TOO_MANY_REDIRECTS: 'The site redirected too many times.',
+  TIMEOUT: 'The site took too long to respond. Try again in a moment.',
+  UPSTREAM_STATUS: 'The site returned an error.',
+  UNSUPPORTED_CONTENT_TYPE: "That URL isn't an HTML page.",
+  FETCH_FAILED: "Couldn't reach the site. Check the URL and try again.",
+  PAYLOAD_TOO_LARGE: 'The page is too large to process.',
+  INVALID_BODY: "The request couldn't be read.",
+  EMPTY_BODY: 'There was nothing to extract colors from.',
+  INVALID_OPTION: 'One of the options is invalid.',
+  NO_COLORS: 'No colors found on this page. Try uploading a screenshot instead.',
+  INVALID_API_KEY: 'The API key was rejected.',
+  RATE_LIMITED: 'Too many requests. Please wait a moment and try again.',
+  INVALID_RESPONSE: 'The server sent an unexpected response.',
+  INTERNAL_ERROR: 'Something went wrong while extracting the theme.',
+};
+
+// A user-facing message for any error thrown while extracting
+export function errorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    const message = ERROR_MESSAGES[error.code];
+    return error.code === 'UPSTREAM_STATUS' && error.upstreamStatus
+      ? `The site returned an error (HTTP ${error.upstreamStatus}).`
+      : message;
+  }
+  return error instanceof Error ? error.message : ERROR_MESSAGES.INTERNAL_ERROR;
+}
+
+export interface ExtractionOptions {
+  // Ask for where each color was written (`provenance`)
+  debug?: boolean;
+  // Cancels the request; the promise rejects with the signal's reason
+  signal?: AbortSignal;
+  onProgress?: (progress: ExtractProgress) => void;
+}
+
+// One Server-Sent Event: its name and parsed JSON data
+function parseEvent(block: string): { event: string; data: unknown } | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  }
+
+  if (data.length === 0) return null;
+  try {
+    return { event, data: JSON.parse(data.join('\n')) };
+  } catch {
+    throw new ApiError('INVALID_RESPONSE', 'The extract stream sent invalid JSON');
+  }
+}
+
+// Extract colors, tokens and usage for a URL via /api/extract/stream,
+// reporting progress as it's sent
+export async function streamExtraction(url: string, options: ExtractionOptions = {}): Promise<ExtractResponse> {
+  const { signal, onProgress } = options;
+  const params = new URLSearchParams({ url });
+  if (options.debug) params.set('debug', '1');
+
+  let response: Response;
+  try {
+    response = await fetch(`/api/extract/stream?${params}`, { signal, headers: { Accept: 'text/event-stream' } });
+  } catch {
+    if (signal?.aborted) throw signal.reason;
+    throw new ApiError('FETCH_FAILED', 'Network request to the API failed');
+  }
+
+  if (!response.ok || !response.body) {
+    const data: unknown = await response.json().catch(() => null);
+    const body = parseErrorBody(data, response.status);
+    throw new ApiError(body.code, body.error, body.upstreamStatus);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      // Events are separated by a blank line
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const message = parseEvent(block);
+        if (message?.event === 'progress') onProgress?.(parseExtractProgress(message.data));
+        if (message?.event === 'result') return parseExtractResponse(message.data);
+        if (message?.event === 'error') {
+          const body = parseErrorBody(message.data, 500);
+          throw new ApiError(body.code, body.error, body.upstreamStatus);
+        }
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    if (error instanceof ApiError) throw error;
+    throw new ApiError('FETCH_FAILED', 'The extract stream was interrupted');
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  throw new ApiError('INVALID_RESPONSE', 'The extract stream ended without a result');
+}
@@ -0,0 +1,451 @@
+// Request/response contract for the /api functions, shared by the worker
+// and the app, with runtime validation for data crossing the boundary
+
+import { type ThemeFormat, THEME_FORMATS, isThemeFormat } from './theme-formats';
+import type {
+  ColorSchemeSource,
+  ColorSource,
+  ColorUsage,
+  DeclaredColor,
+  ExtractedTheme,
+  SelectorKind,
+} from './theme-generator';
+import { type DetectedFramework, type FrameworkId, FRAMEWORK_IDS } from './frameworks';
+import type { ShapeTokens } from './shape-tokens';
+import type { FontStyle, Typography } from './typography';
+
+// Bumped on breaking changes to request or response shapes
+export const API_VERSION = '1.0.0';
+
+export const ERROR_CODES = [
+  'MISSING_URL',
+  'INVALID_URL',
+  'BLOCKED_HOST',
+  'TOO_MANY_REDIRECTS',
+  'TIMEOUT',
+  'UPSTREAM_STATUS',
+  'UNSUPPORTED_CONTENT_TYPE',
+  'FETCH_FAILED',
+  'PAYLOAD_TOO_LARGE',
+  'INVALID_BODY',
+  'EMPTY_BODY',
+  'INVALID_OPTION',
+  'NO_COLORS',
+  'INVALID_API_KEY',
+  'RATE_LIMITED',
+  'INVALID_RESPONSE',
+  'INTERNAL_ERROR',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+// HTTP status the API responds with for each error
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  MISSING_URL: 400,
+  INVALID_URL: 400,
+  BLOCKED_HOST: 403,
+  TOO_MANY_REDIRECTS: 502,
+  TIMEOUT: 504,
+  UPSTREAM_STATUS: 502,
+  UNSUPPORTED_CONTENT_TYPE: 502,
+  FETCH_FAILED: 502,
+  PAYLOAD_TOO_LARGE: 413,
+  INVALID_BODY: 400,
+  EMPTY_BODY: 400,
+  INVALID_OPTION: 400,
+  NO_COLORS: 422,
+  INVALID_API_KEY: 401,
+  RATE_LIMITED: 429,
+  INVALID_RESPONSE: 502,
+  INTERNAL_ERROR: 500,
+};
+
+export interface ApiErrorBody {
+  error: string;
+  code: ErrorCode;
+  // Upstream HTTP status, for UPSTREAM_STATUS
+  upstreamStatus?: number;
+}
+
+// An error with a stable code, thrown by the worker and by the app's client
+export class ApiError extends Error {
+  code: ErrorCode;
+  upstreamStatus?: number;
+
+  constructor(code: ErrorCode, message: string, upstreamStatus?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.upstreamStatus = upstreamStatus;
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  toJSON(): ApiErrorBody {
+    return {
+      error: this.message,
+      code: this.code,
+      ...(this.upstreamStatus !== undefined && { upstreamStatus: this.upstreamStatus }),
+    };
+  }
+}
+
+// A page a site crawl extracted from
+export interface CrawledPage {
+  url: string;
+  // Links followed from the start page to reach it (0 for the start page)
+  depth: number;
+}
+
+// How third-party stylesheets (widgets, consent banners, embeds, CDNs the
+// site doesn't own) are treated: by default known vendors are left out and
+// other third-party sheets count for less
+export const THIRD_PARTY_MODES = ['auto', 'include', 'exclude'] as const;
+export type ThirdPartyMode = (typeof THIRD_PARTY_MODES)[number];
+
+export const STYLESHEET_HANDLINGS = ['excluded', 'downweighted', 'included'] as const;
+export type StylesheetHandling = (typeof STYLESHEET_HANDLINGS)[number];
+
+// A stylesheet from outside the site, and what was done with its colors
+export interface ThirdPartyStylesheet {
+  url: string;
+  // Known vendor it belongs to (e.g. `OneTrust`), if recognized
+  vendor: string | null;
+  handling: StylesheetHandling;
+}
+
+// One color scheme of an extraction
+export type ExtractedScheme = Required<Omit<ColorSchemeSource, 'weights'>> & Pick<ColorSchemeSource, 'weights'>;
+
+// A declaration a color was written in, reported in debug mode
+export interface ColorOrigin {
+  // Stylesheet URL, or the page URL for <style> blocks and style="" attributes
+  url: string;
+  // Position in that file (1-based); null for style="" attributes
+  line: number | null;
+  column: number | null;
+  selector: string;
+  property: string;
+}
+
+// GET/POST /api/extract
+export interface ExtractResponse extends ColorSchemeSource {
+  tokens: Record<string, string>;
+  usage: ColorUsage[];
+  // The site's own dark palette, when it ships one, with weights from the
+  // dark scheme's own rules
+  dark?: ExtractedScheme;
+  // Colors from meta tags, the web app manifest, inline SVG and style
+  // attributes, tagged with where they were declared
+  declared?: DeclaredColor[];
+  // How strongly each color (by hex) features on the page: times written
+  // plus elements matched by the rules using it
+  weights?: Record<string, number>;
+  // Body, heading and monospace fonts and how they are loaded
+  typography?: Typography;
+  // Corner radius, shadow scale and spacing unit
+  shape?: ShapeTokens;
+  // UI framework whose variables the theme roles were read from
+  framework?: DetectedFramework;
+  css: string;
+  // Linked and imported stylesheets that were fetched
+  stylesheets: string[];
+  // Those of them that are third-party, and how their colors were used
+  thirdParty?: ThirdPartyStylesheet[];
+  // Pages merged into the result, when more than the start page was crawled
+  pages?: CrawledPage[];
+  // With `debug=1`: where each color (by hex) was written
+  provenance?: Record<string, ColorOrigin[]>;
+}
+
+// GET /api/extract/stream: what the extraction is doing, sent as `progress`
+// events before the `result` (or `error`) event
+export type ExtractProgress =
+  // A page was fetched (the start page, or one a crawl reached)
+  | { step: 'page'; url: string }
+  // Stylesheets found on a page or imported by one, about to be fetched
+  | { step: 'stylesheets'; urls: string[] }
+  // A stylesheet was fetched (or failed); `colors` counts the distinct
+  // colors written in the pages and stylesheets fetched so far
+  | { step: 'stylesheet'; url: string; ok: boolean; colors: number }
+  // Extraction finished with this many colors
+  | { step: 'extracted'; colors: number };
+
+// How far GET requests crawl a site from the start page
+export interface CrawlOptions {
+  // Pages extracted, including the start page
+  pages: number;
+  // Links followed away from the start page
+  depth: number;
+}
+
+export const MAX_CRAWL_PAGES = 10;
+export const MAX_CRAWL_DEPTH = 3;
+
+export const CONTRAST_OPTIONS = ['AA', 'AAA', 'APCA', 'none'] as const;
+export type ContrastOption = (typeof CONTRAST_OPTIONS)[number];
+
+// Query options for /api/theme
+export interface ThemeOptions {
+  format: ThemeFormat;
+  contrast: ContrastOption;
+  preserveAlpha: boolean;
+  raw: boolean;
+}
+
+// GET/POST /api/theme (JSON form)
+export interface ThemeResponse {
+  theme: ExtractedTheme;
+  format: ThemeFormat;
+  output: string;
+  stylesheets: string[];
+}
+
+// Validation helpers: each returns the value typed, or throws an ApiError
+
+function fail(code: ErrorCode, message: string): never {
+  throw new ApiError(code, message);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return isRecord(value) && Object.values(value).every(item => typeof item === 'string');
+}
+
+const SELECTOR_KINDS: SelectorKind[] = ['root', 'button', 'link', 'heading', 'input'];
+
+function isColorUsage(value: unknown): value is ColorUsage {
+  return isRecord(value) &&
+    typeof value.color === 'string' &&
+    typeof value.count === 'number' &&
+    (value.elements === undefined || typeof value.elements === 'number') &&
+    isStringArray(value.properties) &&
+    Array.isArray(value.selectors) &&
+    value.selectors.every(kind => SELECTOR_KINDS.includes(kind as SelectorKind));
+}
+
+export const COLOR_SOURCES: ColorSource[] = [
+  'theme-color',
+  'tile-color',
+  'manifest-theme-color',
+  'manifest-background-color',
+  'svg',
+  'style-attribute',
+];
+
+function isDeclaredColor(value: unknown): value is DeclaredColor {
+  return isRecord(value) &&
+    typeof value.color === 'string' &&
+    COLOR_SOURCES.includes(value.source as ColorSource) &&
+    typeof value.count === 'number' &&
+    (value.scheme === undefined || value.scheme === 'light' || value.scheme === 'dark');
+}
+
+function isFontStyle(value: unknown): value is FontStyle | null {
+  return value === null || (
+    isRecord(value) &&
+    typeof value.stack === 'string' &&
+    typeof value.family === 'string' &&
+    (value.weight === null || typeof value.weight === 'number') &&
+    (value.size === null || typeof value.size === 'string')
+  );
+}
+
+function isTypography(value: unknown): value is Typography {
+  return isRecord(value) &&
+    isFontStyle(value.body) &&
+    isFontStyle(value.heading) &&
+    isFontStyle(value.mono) &&
+    isStringArray(value.imports) &&
+    isStringArray(value.fontFaces);
+}
+
+function isNullableString(value: unknown): value is string | null {
+  return value === null || typeof value === 'string';
+}
+
+function isShapeTokens(value: unknown): value is ShapeTokens {
+  return isRecord(value) &&
+    isNullableString(value.radius) &&
+    isNullableString(value.spacing) &&
+    isRecord(value.shadows) &&
+    isNullableString(value.shadows.sm) &&
+    isNullableString(value.shadows.md) &&
+    isNullableString(value.shadows.lg);
+}
+
+function isDetectedFramework(value: unknown): value is DetectedFramework {
+  return isRecord(value) &&
+    FRAMEWORK_IDS.includes(value.id as FrameworkId) &&
+    isStringRecord(value.light) &&
+    (value.dark === undefined || isStringRecord(value.dark));
+}
+
+function isCrawledPage(value: unknown): value is CrawledPage {
+  return isRecord(value) && typeof value.url === 'string' && typeof value.depth === 'number';
+}
+
+function isThirdPartyStylesheet(value: unknown): value is ThirdPartyStylesheet {
+  return isRecord(value) &&
+    typeof value.url === 'string' &&
+    isNullableString(value.vendor) &&
+    STYLESHEET_HANDLINGS.includes(value.handling as StylesheetHandling);
+}
+
+function isNullableNumber(value: unknown): value is number | null {
+  return value === null || typeof value === 'number';
+}
+
+function isColorOrigin(value: unknown): value is ColorOrigin {
+  return isRecord(value) &&
+    typeof value.url === 'string' &&
+    isNullableNumber(value.line) &&
+    isNullableNumber(value.column) &&
+    typeof value.selector === 'string' &&
+    typeof value.property === 'string';
+}
+
+function isWeights(value: unknown): value is Record<string, number> {
+  return isRecord(value) && Object.values(value).every(weight => typeof weight === 'number');
+}
+
+function isColorSchemeSource(value: unknown): value is ExtractedScheme {
+  return isRecord(value) &&
+    isStringArray(value.colors) &&
+    isStringRecord(value.tokens) &&
+    Array.isArray(value.usage) &&
+    value.usage.every(isColorUsage);
+}
+
+// Check an /api/extract response body
+export function parseExtractResponse(data: unknown): ExtractResponse {
+  if (!isColorSchemeSource(data)) {
+    fail('INVALID_RESPONSE', 'Extract response is missing colors, tokens or usage');
+  }
+  const body = data as Record<string, unknown>;
+  if (body.dark !== undefined && !(isColorSchemeSource(body.dark) && (body.dark.weights === undefined || isWeights(body.dark.weights)))) {
+    fail('INVALID_RESPONSE', 'Extract response has an invalid dark palette');
+  }
+  if (body.declared !== undefined && !(Array.isArray(body.declared) && body.declared.every(isDeclaredColor))) {
+    fail('INVALID_RESPONSE', 'Extract response has invalid declared colors');
+  }
+  if (body.weights !== undefined && !isWeights(body.weights)) {
+    fail('INVALID_RESPONSE', 'Extract response has invalid color weights');
+  }
+  if (body.typography !== undefined && !isTypography(body.typography)) {
+    fail('INVALID_RESPONSE', 'Extract response has invalid typography');
+  }
+  if (body.shape !== undefined && !isShapeTokens(body.shape)) {
+    fail('INVALID_RESPONSE', 'Extract response has invalid shape tokens');
+  }
+  if (body.framework !== undefined && !isDetectedFramework(body.framework)) {
+    fail('INVALID_RESPONSE', 'Extract response has an invalid framework');
+  }
+  if (typeof body.css !== 'string' || !isStringArray(body.stylesheets)) {
+    fail('INVALID_RESPONSE', 'Extract response is missing css or stylesheets');
+  }
+  if (body.thirdParty !== undefined && !(Array.isArray(body.thirdParty) && body.thirdParty.every(isThirdPartyStylesheet))) {
+    fail('INVALID_RESPONSE', 'Extract response has invalid third-party stylesheets');
+  }
+  if (body.pages !== undefined && !(Array.isArray(body.pages) && body.pages.every(isCrawledPage))) {
+    fail('INVALID_RESPONSE', 'Extract response has invalid crawled pages');
+  }
+  if (body.provenance !== undefined && !(
+    isRecord(body.provenance) &&
+    Object.values(body.provenance).every(origins => Array.isArray(origins) && origins.every(isColorOrigin))
+  )) {
+    fail('INVALID_RESPONSE', 'Extract response has invalid color provenance');
+  }
+  return data as ExtractResponse;
+}
+
+// Check a `progress` event from the extract stream
+export function parseExtractProgress(data: unknown): ExtractProgress {
+  const valid = isRecord(data) && (
+    (data.step === 'page' && typeof data.url === 'string') ||
+    (data.step === 'stylesheets' && isStringArray(data.urls)) ||
+    (data.step === 'stylesheet' && typeof data.url === 'string' && typeof data.ok === 'boolean' && typeof data.colors === 'number') ||
+    (data.step === 'extracted' && typeof data.colors === 'number')
+  );
+  if (!valid) fail('INVALID_RESPONSE', 'Invalid extract progress event');
+  return data as ExtractProgress;
+}
+
+// Check an error body, falling back to a generic code for unknown shapes
+export function parseErrorBody(data: unknown, status: number): ApiErrorBody {
+  if (isRecord(data) && typeof data.error === 'string') {
+    const code = ERROR_CODES.includes(data.code as ErrorCode) ? (data.code as ErrorCode) : null;
+    if (code) {
+      return {
+        error: data.error,
+        code,
+        ...(typeof data.upstreamStatus === 'number' && { upstreamStatus: data.upstreamStatus }),
+      };
+    }
+    return { error: data.error, code: 'INTERNAL_ERROR' };
+  }
+  return { error: `Request failed with status ${status}`, code: 'INTERNAL_ERROR' };
+}
+
+// Check the `url` query parameter or body field
+export function parseTargetUrl(value: string | null | undefined): string {
+  if (!value) fail('MISSING_URL', 'Missing url parameter');
+  return value;
+}
+
+// Check a whole-number option between 1 and `max`, defaulting when absent
+function parseCount(params: URLSearchParams, name: string, fallback: number, max: number): number {
+  const value = params.get(name);
+  if (value === null) return fallback;
+  if (!/^\d+$/.test(value) || Number(value) < 1 || Number(value) > max) {
+    fail('INVALID_OPTION', `"${name}" must be a whole number from 1 to ${max}`);
+  }
+  return Number(value);
+}
+
+// Check the `pages` and `depth` crawl options; by default only the start
+// page is extracted, and a crawl follows links one level deep
+export function parseCrawlOptions(params: URLSearchParams): CrawlOptions {
+  return {
+    pages: parseCount(params, 'pages', 1, MAX_CRAWL_PAGES),
+    depth: parseCount(params, 'depth', 1, MAX_CRAWL_DEPTH),
+  };
+}
+
+// Check the `thirdParty` option, defaulting to `auto`
+export function parseThirdPartyMode(params: URLSearchParams): ThirdPartyMode {
+  const mode = params.get('thirdParty') ?? 'auto';
+  if (!(THIRD_PARTY_MODES as readonly string[]).includes(mode)) {
+    fail('INVALID_OPTION', `Unknown thirdParty mode "${mode}", expected one of ${THIRD_PARTY_MODES.join(', ')}`);
+  }
+  return mode as ThirdPartyMode;
+}
+
+// Check /api/theme query options, applying defaults
+export function parseThemeOptions(params: URLSearchParams): ThemeOptions {
+  const format = params.get('format') ?? 'css';
+  if (!isThemeFormat(format)) {
+    fail('INVALID_OPTION', `Unknown format "${format}", expected one of ${THEME_FORMATS.join(', ')}`);
+  }
+
+  const contrast = params.get('contrast') ?? 'AA';
+  if (!(CONTRAST_OPTIONS as readonly string[]).includes(contrast)) {
+    fail('INVALID_OPTION', `Unknown contrast target "${contrast}", expected one of ${CONTRAST_OPTIONS.join(', ')}`);
+  }
+
+  return {
+    format,
+    contrast: contrast as ContrastOption,
+    preserveAlpha: params.get('preserveAlpha') === '1',
+    raw: params.get('raw') === '1',
+  };
+}
@@ -0,0 +1,299 @@
+// CSS Color Level 4 parser
+//
+// Understands hex (3/4/6/8 digits), named colors, legacy and modern
+// rgb()/hsl() syntax, hwb(), lab(), lch(), oklab(), oklch() and color(),
+// including angle units, percentages, `none` and alpha.
+
+import { type ColorSpace, type Vec3, convertToSrgb } from './color-spaces';
+import type { RGBA } from './color-utils';
+
+// CSS named colors
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4',
+  azure: 'f0ffff', beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000',
+  blanchedalmond: 'ffebcd', blue: '0000ff', blueviolet: '8a2be2', brown: 'a52a2a',
+  burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00', chocolate: 'd2691e',
+  coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b',
+  darkgray: 'a9a9a9', darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b',
+  darkmagenta: '8b008b', darkolivegreen: '556b2f', darkorange: 'ff8c00', darkorchid: '9932cc',
+  darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f', darkslateblue: '483d8b',
+  darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+  deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969',
+  dodgerblue: '1e90ff', firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22',
+  fuchsia: 'ff00ff', gainsboro: 'dcdcdc', ghostwhite: 'f8f8ff', gold: 'ffd700',
+  goldenrod: 'daa520', gray: '808080', green: '008000', greenyellow: 'adff2f',
+  grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+  indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa',
+  lavenderblush: 'fff0f5', lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6',
+  lightcoral: 'f08080', lightcyan: 'e0ffff', lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3',
+  lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1', lightsalmon: 'ffa07a',
+  lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32',
+  linen: 'faf0e6', magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa',
+  mediumblue: '0000cd', mediumorchid: 'ba55d3', mediumpurple: '9370db', mediumseagreen: '3cb371',
+  mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc', mediumvioletred: 'c71585',
+  midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000',
+  olivedrab: '6b8e23', orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6',
+  palegoldenrod: 'eee8aa', palegreen: '98fb98', paleturquoise: 'afeeee', palevioletred: 'db7093',
+  papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f', pink: 'ffc0cb',
+  plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513',
+  salmon: 'fa8072', sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee',
+  sienna: 'a0522d', silver: 'c0c0c0', skyblue: '87ceeb', slateblue: '6a5acd',
+  slategray: '708090', slategrey: '708090', snow: 'fffafa', springgreen: '00ff7f',
+  steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3',
+  white: 'ffffff', whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32',
+};
+
+// Predefined spaces accepted by color()
+const COLOR_FUNCTION_SPACES: Record<string, ColorSpace> = {
+  'srgb': 'srgb',
+  'srgb-linear': 'srgb-linear',
+  'display-p3': 'display-p3',
+  'a98-rgb': 'a98-rgb',
+  'prophoto-rgb': 'prophoto-rgb',
+  'rec2020': 'rec2020',
+  'xyz': 'xyz-d65',
+  'xyz-d50': 'xyz-d50',
+  'xyz-d65': 'xyz-d65',
+};
+
+// Start of every color syntax we can find in free text
+const COLOR_START = /#[\da-f]{3,8}\b|\b(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(/gi;
+
+// Parse a <number> or <percentage>; percentages are scaled so 100% = percentRef
+function parseNumber(token: string, percentRef: number): number | null {
+  if (token === 'none') return 0;
+
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/i.exec(token);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  return match[2] ? (value / 100) * percentRef : value;
+}
+
+// Parse a <hue>: a number (degrees) or an angle with a unit
+function parseHue(token: string): number | null {
+  if (token === 'none') return 0;
+
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/i.exec(token);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  const degrees = {
+    deg: value,
+    rad: (value * 180) / Math.PI,
+    grad: value * 0.9,
+    turn: value * 360,
+  }[match[2]?.toLowerCase() ?? 'deg'] ?? value;
+
+  return ((degrees % 360) + 360) % 360;
+}
+
+// Parse an <alpha-value> (number or percentage), clamped to 0-1
+function parseAlpha(token: string | null): number | null {
+  if (token === null) return 1;
+  const value = parseNumber(token, 1);
+  return value === null ? null : Math.min(1, Math.max(0, value));
+}
+
+// Split function arguments into channels and alpha, for both the legacy
+// comma syntax and the modern space/slash syntax
+function splitArguments(body: string): { channels: string[]; alpha: string | null } | null {
+  if (body.includes(',')) {
+    const parts = body.split(',').map(p => p.trim());
+    if (parts.length < 3 || parts.length > 4 || parts.some(p => !p)) return null;
+    return { channels: parts.slice(0, 3), alpha: parts[3] ?? null };
+  }
+
+  const [main, alpha, extra] = body.split('/');
+  if (extra !== undefined) return null;
+
+  const channels = main.trim().split(/\s+/).filter(Boolean);
+  return { channels, alpha: alpha === undefined ? null : alpha.trim() };
+}
+
+// Parse hex notation (#rgb, #rgba, #rrggbb, #rrggbbaa)
+function parseHex(hex: string): RGBA | null {
+  const digits = hex.replace(/^#/, '');
+  if (!/^[\da-f]+$/i.test(digits)) return null;
+
+  let expanded: string;
+  if (digits.length === 3 || digits.length === 4) {
+    expanded = digits.split('').map(d => d + d).join('');
+  } else if (digits.length === 6 || digits.length === 8) {
+    expanded = digits;
+  } else {
+    return null;
+  }
+
+  return {
+    r: parseInt(expanded.slice(0, 2), 16),
+    g: parseInt(expanded.slice(2, 4), 16),
+    b: parseInt(expanded.slice(4, 6), 16),
+    a: expanded.length === 8 ? Math.round((parseInt(expanded.slice(6, 8), 16) / 255) * 1000) / 1000 : 1,
+  };
+}
+
+// Convert HSL (h in degrees, s/l 0-1) to sRGB 0-1
+function hslToSrgb(h: number, s: number, l: number): Vec3 {
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+// Convert HWB (h in degrees, w/b 0-1) to sRGB 0-1
+function hwbToSrgb(h: number, w: number, b: number): Vec3 {
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return [gray, gray, gray];
+  }
+  return hslToSrgb(h, 1, 0.5).map(c => c * (1 - w - b) + w) as Vec3;
+}
+
+// Resolve a color function's arguments to a space and coordinates
+function parseFunction(name: string, body: string): { space: ColorSpace; coords: Vec3; alpha: number } | null {
+  let args = splitArguments(body);
+  if (!args) return null;
+
+  let space: ColorSpace;
+  let coords: (number | null)[];
+
+  switch (name) {
+    case 'rgb':
+    case 'rgba': {
+      if (args.channels.length !== 3) return null;
+      // The legacy comma syntax takes all numbers or all percentages
+      const percentages = args.channels.filter(c => c.endsWith('%')).length;
+      if (body.includes(',') && percentages !== 0 && percentages !== 3) return null;
+
+      // Channels are clamped to 0-255 when parsed, not gamut-mapped
+      space = 'srgb';
+      coords = args.channels.map(c => {
+        const value = parseNumber(c, 255);
+        return value === null ? null : Math.min(1, Math.max(0, value / 255));
+      });
+      break;
+    }
+    case 'hsl':
+    case 'hsla':
+    case 'hwb': {
+      if (args.channels.length !== 3) return null;
+      const h = parseHue(args.channels[0]);
+      const x = parseNumber(args.channels[1], 100);
+      const y = parseNumber(args.channels[2], 100);
+      if (h === null || x === null || y === null) return null;
+
+      const clamp = (v: number) => Math.min(1, Math.max(0, v / 100));
+      space = 'srgb';
+      coords = name === 'hwb'
+        ? hwbToSrgb(h, clamp(x), clamp(y))
+        : hslToSrgb(h, clamp(x), clamp(y));
+      break;
+    }
+    case 'lab':
+    case 'oklab': {
+      if (args.channels.length !== 3) return null;
+      const isOk = name === 'oklab';
+      space = name;
+      coords = [
+        parseNumber(args.channels[0], isOk ? 1 : 100),
+        parseNumber(args.channels[1], isOk ? 0.4 : 125),
+        parseNumber(args.channels[2], isOk ? 0.4 : 125),
+      ];
+      break;
+    }
+    case 'lch':
+    case 'oklch': {
+      if (args.channels.length !== 3) return null;
+      const isOk = name === 'oklch';
+      space = name;
+      coords = [
+        parseNumber(args.channels[0], isOk ? 1 : 100),
+        parseNumber(args.channels[1], isOk ? 0.4 : 150),
+        parseHue(args.channels[2]),
+      ];
+      break;
+    }
+    case 'color': {
+      const [spaceName, ...channels] = args.channels;
+      const predefined = COLOR_FUNCTION_SPACES[spaceName?.toLowerCase() ?? ''];
+      if (!predefined || channels.length !== 3) return null;
+      space = predefined;
+      coords = channels.map(c => parseNumber(c, 1));
+      args = { channels, alpha: args.alpha };
+      break;
+    }
+    default:
+      return null;
+  }
+
+  const alpha = parseAlpha(args.alpha);
+  if (alpha === null || coords.some(c => c === null || !Number.isFinite(c))) return null;
+
+  const [l] = coords as number[];
+  if (space === 'lab' || space === 'lch') coords[0] = Math.min(100, Math.max(0, l));
+  if (space === 'oklab' || space === 'oklch') coords[0] = Math.min(1, Math.max(0, l));
+  if ((space === 'lch' || space === 'oklch') && (coords[1] as number) < 0) coords[1] = 0;
+
+  return { space, coords: coords as Vec3, alpha };
+}
+
+// Parse any CSS color value to 8-bit sRGB plus alpha
+export function parseCSSColor(input: string): RGBA | null {
+  const color = input.trim().toLowerCase();
+
+  if (color.startsWith('#')) {
+    return parseHex(color);
+  }
+
+  if (color === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  if (NAMED_COLORS[color]) {
+    return parseHex(NAMED_COLORS[color]);
+  }
+
+  const fn = /^([a-z]+)\(([^()]*)\)$/.exec(color);
+  if (!fn) return null;
+
+  const parsed = parseFunction(fn[1], fn[2].trim());
+  if (!parsed) return null;
+
+  const [r, g, b] = convertToSrgb(parsed.space, parsed.coords);
+  return {
+    r: Math.round(r * 255),
+    g: Math.round(g * 255),
+    b: Math.round(b * 255),
+    a: Math.round(parsed.alpha * 1000) / 1000,
+  };
+}
+
+// Find every color literal (hex or color function) in a block of CSS text,
+// returning the original substrings that parse as valid colors
+export function findCSSColors(text: string): string[] {
+  const colors: string[] = [];
+
+  for (const match of text.matchAll(COLOR_START)) {
+    let candidate = match[0];
+
+    if (candidate.endsWith('(')) {
+      const close = text.indexOf(')', match.index + candidate.length);
+      if (close === -1) continue;
+      candidate = text.slice(match.index, close + 1);
+    }
+
+    if (parseCSSColor(candidate)) {
+      colors.push(candidate);
+    }
+  }
+
+  return colors;
+}
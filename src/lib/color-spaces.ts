@@ -0,0 +1,304 @@
+// Color space conversions (CSS Color Level 4) and sRGB gamut mapping
+//
+// All functions work on float triplets. sRGB channels are 0-1, Lab/LCH use
+// the CSS ranges (L 0-100), OKLab/OKLCH use L 0-1, hues are in degrees.
+
+export type Vec3 = [number, number, number];
+
+export type ColorSpace =
+  | 'srgb'
+  | 'srgb-linear'
+  | 'display-p3'
+  | 'a98-rgb'
+  | 'prophoto-rgb'
+  | 'rec2020'
+  | 'xyz-d50'
+  | 'xyz-d65'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch';
+
+type Matrix = [Vec3, Vec3, Vec3];
+
+function multiply(m: Matrix, v: Vec3): Vec3 {
+  return [
+    m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+    m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+    m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2],
+  ];
+}
+
+// Matrices from the CSS Color 4 sample code
+const LINEAR_SRGB_TO_XYZ: Matrix = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+
+const XYZ_TO_LINEAR_SRGB: Matrix = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+
+const LINEAR_P3_TO_XYZ: Matrix = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+
+const LINEAR_A98_TO_XYZ: Matrix = [
+  [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+  [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+  [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+];
+
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix = [
+  [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+  [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+  [0, 0, 0.8251046025104602],
+];
+
+const LINEAR_REC2020_TO_XYZ: Matrix = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+
+// Bradford chromatic adaptation
+const D50_TO_D65: Matrix = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+
+const D65_TO_D50: Matrix = [
+  [1.0479297925449969, 0.022946870601609652, -0.05019226628920524],
+  [0.02962780877005599, 0.9904344267538799, -0.017073799063418826],
+  [-0.009243040646204504, 0.015055191490298152, 0.7518742814281371],
+];
+
+const XYZ_TO_LMS: Matrix = [
+  [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+
+const LMS_TO_XYZ: Matrix = [
+  [1.2268798758459243, -0.5578149944602171, 0.2813910456659647],
+  [-0.0405757452148008, 1.112286803280317, -0.0717110580655164],
+  [-0.0763729366746601, -0.4214933324022432, 1.5869240198367816],
+];
+
+const LMS_TO_OKLAB: Matrix = [
+  [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.42859224204858, 0.450593709617411],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+];
+
+const OKLAB_TO_LMS: Matrix = [
+  [1, 0.3963377773761749, 0.2158037573099136],
+  [1, -0.1055613458156586, -0.0638541728258133],
+  [1, -0.0894841775298119, -1.2914855480194092],
+];
+
+const D50_WHITE: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+// Gamma-encoded sRGB channel to linear light
+export function srgbToLinear(c: number): number {
+  const abs = Math.abs(c);
+  return abs <= 0.04045 ? c / 12.92 : Math.sign(c) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+// Linear light to gamma-encoded sRGB channel
+export function linearToSrgb(c: number): number {
+  const abs = Math.abs(c);
+  return abs <= 0.0031308 ? c * 12.92 : Math.sign(c) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+}
+
+function a98ToLinear(c: number): number {
+  return Math.sign(c) * Math.pow(Math.abs(c), 563 / 256);
+}
+
+function prophotoToLinear(c: number): number {
+  const abs = Math.abs(c);
+  return abs <= 16 / 512 ? c / 16 : Math.sign(c) * Math.pow(abs, 1.8);
+}
+
+function rec2020ToLinear(c: number): number {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  const abs = Math.abs(c);
+  return abs < beta * 4.5 ? c / 4.5 : Math.sign(c) * Math.pow((abs + alpha - 1) / alpha, 1 / 0.45);
+}
+
+// Polar (L, C, h) to rectangular (L, a, b)
+export function polarToRect([l, c, h]: Vec3): Vec3 {
+  const rad = (h * Math.PI) / 180;
+  return [l, c * Math.cos(rad), c * Math.sin(rad)];
+}
+
+// Rectangular (L, a, b) to polar (L, C, h)
+export function rectToPolar([l, a, b]: Vec3): Vec3 {
+  const c = Math.sqrt(a * a + b * b);
+  let h = (Math.atan2(b, a) * 180) / Math.PI;
+  if (h < 0) h += 360;
+  return [l, c, c < 1e-7 ? 0 : h];
+}
+
+export function xyzD65ToOklab(xyz: Vec3): Vec3 {
+  const lms = multiply(XYZ_TO_LMS, xyz).map(Math.cbrt) as Vec3;
+  return multiply(LMS_TO_OKLAB, lms);
+}
+
+export function oklabToXyzD65(lab: Vec3): Vec3 {
+  const lms = multiply(OKLAB_TO_LMS, lab).map(c => c * c * c) as Vec3;
+  return multiply(LMS_TO_XYZ, lms);
+}
+
+export function xyzD50ToLab(xyz: Vec3): Vec3 {
+  const f = xyz.map((v, i) => {
+    const x = v / D50_WHITE[i];
+    return x > LAB_EPSILON ? Math.cbrt(x) : (LAB_KAPPA * x + 16) / 116;
+  });
+  return [116 * f[1] - 16, 500 * (f[0] - f[1]), 200 * (f[1] - f[2])];
+}
+
+export function labToXyzD50([l, a, b]: Vec3): Vec3 {
+  const f1 = (l + 16) / 116;
+  const f0 = a / 500 + f1;
+  const f2 = f1 - b / 200;
+  const x = Math.pow(f0, 3) > LAB_EPSILON ? Math.pow(f0, 3) : (116 * f0 - 16) / LAB_KAPPA;
+  const y = l > LAB_KAPPA * LAB_EPSILON ? Math.pow(f1, 3) : l / LAB_KAPPA;
+  const z = Math.pow(f2, 3) > LAB_EPSILON ? Math.pow(f2, 3) : (116 * f2 - 16) / LAB_KAPPA;
+  return [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+}
+
+export function xyzD65ToXyzD50(xyz: Vec3): Vec3 {
+  return multiply(D65_TO_D50, xyz);
+}
+
+export function xyzD50ToXyzD65(xyz: Vec3): Vec3 {
+  return multiply(D50_TO_D65, xyz);
+}
+
+export function linearSrgbToXyzD65(rgb: Vec3): Vec3 {
+  return multiply(LINEAR_SRGB_TO_XYZ, rgb);
+}
+
+export function xyzD65ToLinearSrgb(xyz: Vec3): Vec3 {
+  return multiply(XYZ_TO_LINEAR_SRGB, xyz);
+}
+
+// Convert coordinates in any supported space to CIE XYZ (D65)
+export function toXyzD65(space: ColorSpace, coords: Vec3): Vec3 {
+  switch (space) {
+    case 'srgb':
+      return multiply(LINEAR_SRGB_TO_XYZ, coords.map(srgbToLinear) as Vec3);
+    case 'srgb-linear':
+      return multiply(LINEAR_SRGB_TO_XYZ, coords);
+    case 'display-p3':
+      return multiply(LINEAR_P3_TO_XYZ, coords.map(srgbToLinear) as Vec3);
+    case 'a98-rgb':
+      return multiply(LINEAR_A98_TO_XYZ, coords.map(a98ToLinear) as Vec3);
+    case 'prophoto-rgb':
+      return xyzD50ToXyzD65(multiply(LINEAR_PROPHOTO_TO_XYZ_D50, coords.map(prophotoToLinear) as Vec3));
+    case 'rec2020':
+      return multiply(LINEAR_REC2020_TO_XYZ, coords.map(rec2020ToLinear) as Vec3);
+    case 'xyz-d50':
+      return xyzD50ToXyzD65(coords);
+    case 'xyz-d65':
+      return coords;
+    case 'lab':
+      return xyzD50ToXyzD65(labToXyzD50(coords));
+    case 'lch':
+      return xyzD50ToXyzD65(labToXyzD50(polarToRect(coords)));
+    case 'oklab':
+      return oklabToXyzD65(coords);
+    case 'oklch':
+      return oklabToXyzD65(polarToRect(coords));
+  }
+}
+
+// Distance in OKLab, used by the gamut mapping algorithm
+function deltaEOK(a: Vec3, b: Vec3): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+function oklchToSrgb(lch: Vec3): Vec3 {
+  return xyzD65ToLinearSrgb(oklabToXyzD65(polarToRect(lch))).map(linearToSrgb) as Vec3;
+}
+
+function srgbToOklab(rgb: Vec3): Vec3 {
+  return xyzD65ToOklab(multiply(LINEAR_SRGB_TO_XYZ, rgb.map(srgbToLinear) as Vec3));
+}
+
+function isInSrgbGamut(rgb: Vec3, epsilon: number = 0.000075): boolean {
+  return rgb.every(c => c >= -epsilon && c <= 1 + epsilon);
+}
+
+function clip(rgb: Vec3): Vec3 {
+  return rgb.map(c => Math.min(1, Math.max(0, c))) as Vec3;
+}
+
+// Map an OKLCH color into sRGB by reducing chroma until the clipped result is
+// within a just-noticeable difference (CSS Color 4, "css-gamut-map")
+export function gamutMapOklchToSrgb(origin: Vec3): Vec3 {
+  const JND = 0.02;
+  const EPSILON = 0.0001;
+  const [l, c, h] = origin;
+
+  if (l >= 1) return [1, 1, 1];
+  if (l <= 0) return [0, 0, 0];
+
+  const direct = oklchToSrgb(origin);
+  if (isInSrgbGamut(direct)) return clip(direct);
+
+  let clipped = clip(direct);
+  if (deltaEOK(srgbToOklab(clipped), polarToRect(origin)) < JND) return clipped;
+
+  let min = 0;
+  let max = c;
+  let minInGamut = true;
+
+  while (max - min > EPSILON) {
+    const chroma = (min + max) / 2;
+    const current: Vec3 = [l, chroma, h];
+    const currentRgb = oklchToSrgb(current);
+
+    if (minInGamut && isInSrgbGamut(currentRgb)) {
+      min = chroma;
+      continue;
+    }
+
+    clipped = clip(currentRgb);
+    const error = deltaEOK(srgbToOklab(clipped), polarToRect(current));
+
+    if (error < JND) {
+      if (JND - error < EPSILON) return clipped;
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+
+  return clipped;
+}
+
+// Convert any supported color to gamma-encoded sRGB (0-1), gamut mapping
+// out-of-range colors in OKLCH rather than clipping each channel
+export function convertToSrgb(space: ColorSpace, coords: Vec3): Vec3 {
+  if (space === 'srgb' && isInSrgbGamut(coords)) {
+    return clip(coords);
+  }
+
+  const xyz = toXyzD65(space, coords);
+  const rgb = xyzD65ToLinearSrgb(xyz).map(linearToSrgb) as Vec3;
+  if (isInSrgbGamut(rgb)) return clip(rgb);
+
+  return gamutMapOklchToSrgb(rectToPolar(xyzD65ToOklab(xyz)));
+}
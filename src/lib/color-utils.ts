@@ -1,98 +1,79 @@
 // Color conversion and manipulation utilities
 
+import { findCSSColors, parseCSSColor } from './color-parser';
+import {
+  type ColorSpace,
+  type Vec3,
+  convertToSrgb,
+  linearSrgbToXyzD65,
+  rectToPolar,
+  srgbToLinear,
+  xyzD50ToLab,
+  xyzD65ToOklab,
+  xyzD65ToXyzD50,
+} from './color-spaces';
+
 export interface RGB {
   r: number;
   g: number;
   b: number;
 }
 
+export interface RGBA extends RGB {
+  // Alpha, 0 (transparent) to 1 (opaque)
+  a: number;
+}
+
 export interface HSL {
   h: number;
   s: number;
   l: number;
 }
 
-// Parse any color format to RGB
-export function parseColor(color: string): RGB | null {
-  color = color.trim().toLowerCase();
-
-  // Hex format
-  if (color.startsWith('#')) {
-    return hexToRgb(color);
-  }
-
-  // RGB format
-  const rgbMatch = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/);
-  if (rgbMatch) {
-    return {
-      r: parseInt(rgbMatch[1]),
-      g: parseInt(rgbMatch[2]),
-      b: parseInt(rgbMatch[3]),
-    };
-  }
+// OKLab: l 0-1, a/b roughly -0.4 to 0.4
+export interface OKLab {
+  l: number;
+  a: number;
+  b: number;
+}
 
-  // HSL format
-  const hslMatch = color.match(/hsla?\((\d+(?:\.\d+)?),\s*(\d+(?:\.\d+)?)%?,\s*(\d+(?:\.\d+)?)%?/);
-  if (hslMatch) {
-    return hslToRgb({
-      h: parseFloat(hslMatch[1]),
-      s: parseFloat(hslMatch[2]),
-      l: parseFloat(hslMatch[3]),
-    });
-  }
+// OKLCH: l 0-1, c 0 to ~0.4, h in degrees
+export interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
 
-  // Named colors (common ones)
-  const namedColors: Record<string, string> = {
-    white: '#ffffff',
-    black: '#000000',
-    red: '#ff0000',
-    green: '#00ff00',
-    blue: '#0000ff',
-    yellow: '#ffff00',
-    cyan: '#00ffff',
-    magenta: '#ff00ff',
-    gray: '#808080',
-    grey: '#808080',
-    orange: '#ffa500',
-    purple: '#800080',
-    pink: '#ffc0cb',
-    transparent: '#00000000',
-  };
+// CIELAB (D50, as used by CSS lab()): l 0-100
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
 
-  if (namedColors[color]) {
-    return hexToRgb(namedColors[color]);
-  }
+// Parse any CSS color (hex, named, rgb, hsl, hwb, lab, lch, oklab, oklch,
+// color()) to sRGB plus alpha, gamut mapping wide-gamut colors
+export function parseColor(color: string): RGBA | null {
+  const parsed = parseCSSColor(color);
+  // Fully transparent colors are never visible, so they are not candidates
+  if (!parsed || parsed.a === 0) return null;
 
-  return null;
+  return parsed;
 }
 
-// Hex to RGB conversion
-export function hexToRgb(hex: string): RGB | null {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  if (result) {
-    return {
-      r: parseInt(result[1], 16),
-      g: parseInt(result[2], 16),
-      b: parseInt(result[3], 16),
-    };
-  }
+// Hex to RGBA conversion (#rgb, #rgba, #rrggbb, #rrggbbaa)
+export function hexToRgb(hex: string): RGBA | null {
+  return parseCSSColor(hex.startsWith('#') ? hex : `#${hex}`);
+}
 
-  // Handle shorthand hex (#fff)
-  const shortResult = /^#?([a-f\d])([a-f\d])([a-f\d])$/i.exec(hex);
-  if (shortResult) {
-    return {
-      r: parseInt(shortResult[1] + shortResult[1], 16),
-      g: parseInt(shortResult[2] + shortResult[2], 16),
-      b: parseInt(shortResult[3] + shortResult[3], 16),
-    };
+// RGB to Hex conversion; translucent colors get an alpha byte (#rrggbbaa)
+export function rgbToHex(rgb: RGB | RGBA): string {
+  const channels = [rgb.r, rgb.g, rgb.b];
+  if ('a' in rgb && rgb.a < 1) {
+    channels.push(rgb.a * 255);
   }
 
-  return null;
-}
-
-// RGB to Hex conversion
-export function rgbToHex(rgb: RGB): string {
-  return '#' + [rgb.r, rgb.g, rgb.b]
+  return '#' + channels
     .map(x => {
       const hex = Math.round(x).toString(16);
       return hex.length === 1 ? '0' + hex : hex;
@@ -100,6 +81,17 @@ export function rgbToHex(rgb: RGB): string {
     .join('');
 }
 
+// Composite a translucent color over an opaque background ("source-over")
+export function compositeOver(color: RGB | RGBA, background: RGB): RGBA {
+  const alpha = 'a' in color ? color.a : 1;
+  return {
+    r: Math.round(color.r * alpha + background.r * (1 - alpha)),
+    g: Math.round(color.g * alpha + background.g * (1 - alpha)),
+    b: Math.round(color.b * alpha + background.b * (1 - alpha)),
+    a: 1,
+  };
+}
+
 // RGB to HSL conversion
 export function rgbToHsl(rgb: RGB): HSL {
   const r = rgb.r / 255;
@@ -170,9 +162,11 @@ export function hslToRgb(hsl: HSL): RGB {
   };
 }
 
-// Format HSL for shadcn (without hsl() wrapper, just values)
-export function formatHslForShadcn(hsl: HSL): string {
-  return `${hsl.h} ${hsl.s}% ${hsl.l}%`;
+// Format HSL for shadcn (without hsl() wrapper, just values), with an
+// optional alpha (`h s% l% / a`)
+export function formatHslForShadcn(hsl: HSL, alpha: number = 1): string {
+  const channels = `${hsl.h} ${hsl.s}% ${hsl.l}%`;
+  return alpha < 1 ? `${channels} / ${Math.round(alpha * 1000) / 1000}` : channels;
 }
 
 // Calculate color luminance (for contrast calculations)
@@ -193,6 +187,31 @@ export function getContrastRatio(color1: RGB, color2: RGB): number {
   return (lighter + 0.05) / (darker + 0.05);
 }
 
+// APCA (Lc) lightness contrast of text on a background (APCA-W3 0.0.98G-4g).
+// Positive for dark text on light backgrounds, negative for light on dark;
+// |Lc| 75 suits body text, 60 large text, 45 large bold text or UI
+export function getAPCAContrast(text: RGB, background: RGB): number {
+  const screenLuminance = (rgb: RGB) => {
+    const y = 0.2126729 * Math.pow(rgb.r / 255, 2.4) +
+      0.7151522 * Math.pow(rgb.g / 255, 2.4) +
+      0.072175 * Math.pow(rgb.b / 255, 2.4);
+    // Soft clamp near black
+    return y < 0.022 ? y + Math.pow(0.022 - y, 1.414) : y;
+  };
+
+  const textY = screenLuminance(text);
+  const backgroundY = screenLuminance(background);
+  if (Math.abs(backgroundY - textY) < 0.0005) return 0;
+
+  if (backgroundY > textY) {
+    const sapc = (Math.pow(backgroundY, 0.56) - Math.pow(textY, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+
+  const sapc = (Math.pow(backgroundY, 0.65) - Math.pow(textY, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
 // Check if a color is light or dark
 export function isLightColor(rgb: RGB): boolean {
   return getLuminance(rgb) > 0.5;
@@ -207,22 +226,130 @@ export function colorDistance(c1: RGB, c2: RGB): number {
   );
 }
 
+// RGB to CIE XYZ (D65)
+function rgbToXyz(rgb: RGB): Vec3 {
+  return linearSrgbToXyzD65([rgb.r, rgb.g, rgb.b].map(c => srgbToLinear(c / 255)) as Vec3);
+}
+
+// Convert coordinates in another space back to RGB, gamut mapping if needed
+function toRgb(space: ColorSpace, coords: Vec3): RGB {
+  const [r, g, b] = convertToSrgb(space, coords);
+  return { r: Math.round(r * 255), g: Math.round(g * 255), b: Math.round(b * 255) };
+}
+
+// RGB to OKLab conversion
+export function rgbToOklab(rgb: RGB): OKLab {
+  const [l, a, b] = xyzD65ToOklab(rgbToXyz(rgb));
+  return { l, a, b };
+}
+
+// OKLab to RGB conversion (gamut mapped into sRGB)
+export function oklabToRgb(lab: OKLab): RGB {
+  return toRgb('oklab', [lab.l, lab.a, lab.b]);
+}
+
+// RGB to OKLCH conversion
+export function rgbToOklch(rgb: RGB): OKLCH {
+  const [l, c, h] = rectToPolar(xyzD65ToOklab(rgbToXyz(rgb)));
+  return { l, c, h };
+}
+
+// OKLCH to RGB conversion (gamut mapped into sRGB)
+export function oklchToRgb(lch: OKLCH): RGB {
+  return toRgb('oklch', [lch.l, lch.c, lch.h]);
+}
+
+// RGB to CIELAB conversion
+export function rgbToLab(rgb: RGB): Lab {
+  const [l, a, b] = xyzD50ToLab(xyzD65ToXyzD50(rgbToXyz(rgb)));
+  return { l, a, b };
+}
+
+// CIELAB to RGB conversion (gamut mapped into sRGB)
+export function labToRgb(lab: Lab): RGB {
+  return toRgb('lab', [lab.l, lab.a, lab.b]);
+}
+
+// Color difference in OKLab (Euclidean; ~0.02 is a just-noticeable difference)
+export function deltaEOK(c1: RGB, c2: RGB): number {
+  const a = rgbToOklab(c1);
+  const b = rgbToOklab(c2);
+  return Math.sqrt((a.l - b.l) ** 2 + (a.a - b.a) ** 2 + (a.b - b.b) ** 2);
+}
+
+// CIEDE2000 color difference between two Lab colors (~2.3 is a
+// just-noticeable difference)
+export function deltaE2000Lab(lab1: Lab, lab2: Lab): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = (Math.atan2(b, a) * 180) / Math.PI;
+    return h < 0 ? h + 360 : h;
+  };
+
+  const c1 = Math.sqrt(lab1.a ** 2 + lab1.b ** 2);
+  const c2 = Math.sqrt(lab2.a ** 2 + lab2.b ** 2);
+  const cBar7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + 25 ** 7)));
+
+  const a1p = (1 + g) * lab1.a;
+  const a2p = (1 + g) * lab2.a;
+  const c1p = Math.sqrt(a1p ** 2 + lab1.b ** 2);
+  const c2p = Math.sqrt(a2p ** 2 + lab2.b ** 2);
+  const h1p = hue(lab1.b, a1p);
+  const h2p = hue(lab2.b, a2p);
+
+  const dLp = lab2.l - lab1.l;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(rad(dhp / 2));
+
+  const lBarP = (lab1.l + lab2.l) / 2;
+  const cBarP = (c1p + c2p) / 2;
+  let hBarP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarP = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hBarP = (h1p + h2p + 360) / 2;
+    else hBarP = (h1p + h2p - 360) / 2;
+  }
+
+  const t = 1 -
+    0.17 * Math.cos(rad(hBarP - 30)) +
+    0.24 * Math.cos(rad(2 * hBarP)) +
+    0.32 * Math.cos(rad(3 * hBarP + 6)) -
+    0.2 * Math.cos(rad(4 * hBarP - 63));
+  const dTheta = 30 * Math.exp(-(((hBarP - 275) / 25) ** 2));
+  const cBarP7 = cBarP ** 7;
+  const rC = 2 * Math.sqrt(cBarP7 / (cBarP7 + 25 ** 7));
+  const sL = 1 + (0.015 * (lBarP - 50) ** 2) / Math.sqrt(20 + (lBarP - 50) ** 2);
+  const sC = 1 + 0.045 * cBarP;
+  const sH = 1 + 0.015 * cBarP * t;
+  const rT = -Math.sin(rad(2 * dTheta)) * rC;
+
+  return Math.sqrt(
+    (dLp / sL) ** 2 +
+    (dCp / sC) ** 2 +
+    (dHp / sH) ** 2 +
+    rT * (dCp / sC) * (dHp / sH)
+  );
+}
+
+// CIEDE2000 color difference between two RGB colors
+export function deltaE2000(c1: RGB, c2: RGB): number {
+  return deltaE2000Lab(rgbToLab(c1), rgbToLab(c2));
+}
+
 // Extract all colors from CSS text
 export function extractColorsFromCSS(css: string): string[] {
-  const colorPatterns = [
-    /#[a-fA-F0-9]{6}\b/g,
-    /#[a-fA-F0-9]{3}\b/g,
-    /rgba?\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*(?:,\s*[\d.]+\s*)?\)/gi,
-    /hsla?\(\s*[\d.]+\s*,\s*[\d.]+%?\s*,\s*[\d.]+%?\s*(?:,\s*[\d.]+\s*)?\)/gi,
-  ];
-
   const colors = new Set<string>();
 
-  for (const pattern of colorPatterns) {
-    const matches = css.match(pattern);
-    if (matches) {
-      matches.forEach(match => colors.add(match.toLowerCase()));
-    }
+  for (const match of findCSSColors(css)) {
+    colors.add(match.toLowerCase());
   }
 
   return Array.from(colors);
@@ -230,11 +357,11 @@ export function extractColorsFromCSS(css: string): string[] {
 
 // Median cut color quantization for image analysis
 export interface ColorBucket {
-  colors: RGB[];
+  colors: RGBA[];
   count: number;
 }
 
-export function medianCutQuantize(pixels: RGB[], maxColors: number = 8): RGB[] {
+export function medianCutQuantize(pixels: RGBA[], maxColors: number = 8): RGBA[] {
   if (pixels.length === 0) return [];
 
   const buckets: ColorBucket[] = [{ colors: pixels, count: pixels.length }];
@@ -287,14 +414,15 @@ export function medianCutQuantize(pixels: RGB[], maxColors: number = 8): RGB[] {
   // Calculate average color for each bucket
   return buckets.map(bucket => {
     const avg = bucket.colors.reduce(
-      (acc, c) => ({ r: acc.r + c.r, g: acc.g + c.g, b: acc.b + c.b }),
-      { r: 0, g: 0, b: 0 }
+      (acc, c) => ({ r: acc.r + c.r, g: acc.g + c.g, b: acc.b + c.b, a: acc.a + c.a }),
+      { r: 0, g: 0, b: 0, a: 0 }
     );
     const count = bucket.colors.length;
     return {
       r: Math.round(avg.r / count),
       g: Math.round(avg.g / count),
       b: Math.round(avg.b / count),
+      a: Math.round((avg.a / count) * 1000) / 1000,
     };
   });
 }
@@ -303,8 +431,8 @@ export function medianCutQuantize(pixels: RGB[], maxColors: number = 8): RGB[] {
 export function extractColorsFromImageData(
   imageData: ImageData,
   sampleRate: number = 10
-): RGB[] {
-  const pixels: RGB[] = [];
+): RGBA[] {
+  const pixels: RGBA[] = [];
   const data = imageData.data;
 
   for (let i = 0; i < data.length; i += 4 * sampleRate) {
@@ -313,14 +441,14 @@ export function extractColorsFromImageData(
     const b = data[i + 2];
     const a = data[i + 3];
 
-    // Skip transparent pixels
-    if (a < 128) continue;
+    // Skip fully transparent pixels; translucent ones keep their alpha
+    if (a === 0) continue;
 
     // Skip very dark and very light pixels (often backgrounds)
     const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
     if (luminance < 0.05 || luminance > 0.95) continue;
 
-    pixels.push({ r, g, b });
+    pixels.push({ r, g, b, a: a / 255 });
   }
 
   return medianCutQuantize(pixels, 16);
@@ -0,0 +1,213 @@
+// Contrast checking and automatic correction for theme token pairs
+
+import {
+  type RGB,
+  parseColor,
+  compositeOver,
+  getContrastRatio,
+  getAPCAContrast,
+  rgbToOklch,
+  oklchToRgb,
+  rgbToHsl,
+  formatHslForShadcn,
+} from './color-utils';
+import type { ThemeColors } from './theme-generator';
+
+// Minimum contrast a foreground must reach against its background, either as
+// a WCAG 2 ratio or an APCA lightness contrast (|Lc|)
+export type ContrastTarget =
+  | { standard: 'wcag2'; minimum: number }
+  | { standard: 'apca'; minimum: number };
+
+export const CONTRAST_PRESETS = {
+  AA: { standard: 'wcag2', minimum: 4.5 },
+  AAA: { standard: 'wcag2', minimum: 7 },
+  APCA: { standard: 'apca', minimum: 75 },
+} satisfies Record<string, ContrastTarget>;
+
+export type ContrastPreset = keyof typeof CONTRAST_PRESETS;
+
+// Background/foreground token pairs that must stay readable
+export const CONTRAST_PAIRS: [keyof ThemeColors, keyof ThemeColors][] = [
+  ['background', 'foreground'],
+  ['card', 'cardForeground'],
+  ['popover', 'popoverForeground'],
+  ['primary', 'primaryForeground'],
+  ['secondary', 'secondaryForeground'],
+  ['muted', 'mutedForeground'],
+  ['accent', 'accentForeground'],
+  ['destructive', 'destructiveForeground'],
+];
+
+export interface ContrastCheck {
+  background: keyof ThemeColors;
+  foreground: keyof ThemeColors;
+  // Contrast before and after correction (WCAG ratio or APCA |Lc|)
+  original: number;
+  corrected: number;
+  adjusted: boolean;
+  passes: boolean;
+}
+
+export interface ContrastReport {
+  target: ContrastTarget;
+  light: ContrastCheck[];
+  dark: ContrastCheck[];
+}
+
+// Parse a shadcn channel value (`h s% l%` or `h s% l% / a`) to RGB,
+// compositing translucent values over `backdrop`
+export function parseThemeColor(value: string, backdrop: RGB = { r: 255, g: 255, b: 255 }): RGB | null {
+  const rgba = parseColor(`hsl(${value})`);
+  return rgba ? compositeOver(rgba, backdrop) : null;
+}
+
+// Measure contrast of a foreground on a background for the target's standard
+export function measureContrast(foreground: RGB, background: RGB, target: ContrastTarget): number {
+  return target.standard === 'apca'
+    ? Math.abs(getAPCAContrast(foreground, background))
+    : getContrastRatio(foreground, background);
+}
+
+// Move a color's OKLCH lightness towards `toward` (0 or 1) just far enough
+// to meet the target, keeping hue and chroma; null if even the extreme fails
+function nudgeLightness(
+  foreground: RGB,
+  background: RGB,
+  target: ContrastTarget,
+  toward: 0 | 1
+): RGB | null {
+  const oklch = rgbToOklch(foreground);
+  const at = (l: number) => oklchToRgb({ ...oklch, l });
+
+  if (measureContrast(at(toward), background, target) < target.minimum) return null;
+
+  // Binary search for the smallest lightness change that passes
+  let passing: number = toward;
+  let failing = oklch.l;
+  for (let i = 0; i < 20; i++) {
+    const mid = (passing + failing) / 2;
+    if (measureContrast(at(mid), background, target) >= target.minimum) {
+      passing = mid;
+    } else {
+      failing = mid;
+    }
+  }
+
+  return at(passing);
+}
+
+// Correct a foreground so it meets the target on the background, preferring
+// to push it further in the direction it already differs
+export function correctForeground(foreground: RGB, background: RGB, target: ContrastTarget): RGB | null {
+  if (measureContrast(foreground, background, target) >= target.minimum) return foreground;
+
+  const foregroundIsLighter = rgbToOklch(foreground).l >= rgbToOklch(background).l;
+  const directions: (0 | 1)[] = foregroundIsLighter ? [1, 0] : [0, 1];
+
+  for (const toward of directions) {
+    const corrected = nudgeLightness(foreground, background, target, toward);
+    if (corrected) return corrected;
+  }
+
+  return null;
+}
+
+// Check every token pair and fix foregrounds that miss the target
+export function enforceContrast(
+  colors: ThemeColors,
+  target: ContrastTarget
+): { colors: ThemeColors; checks: ContrastCheck[] } {
+  const result = { ...colors };
+  const checks: ContrastCheck[] = [];
+  const pageBackground = parseThemeColor(colors.background) ?? { r: 255, g: 255, b: 255 };
+
+  for (const [backgroundRole, foregroundRole] of CONTRAST_PAIRS) {
+    const background = parseThemeColor(colors[backgroundRole], pageBackground);
+    const foreground = background && parseThemeColor(colors[foregroundRole], background);
+    if (!background || !foreground) continue;
+
+    const original = measureContrast(foreground, background, target);
+    const corrected = correctForeground(foreground, background, target);
+    const adjusted = corrected !== null && corrected !== foreground;
+
+    if (adjusted) {
+      result[foregroundRole] = formatHslForShadcn(rgbToHsl(corrected));
+    }
+
+    const final = corrected ?? foreground;
+    checks.push({
+      background: backgroundRole,
+      foreground: foregroundRole,
+      original: Math.round(original * 100) / 100,
+      corrected: Math.round(measureContrast(final, background, target) * 100) / 100,
+      adjusted,
+      passes: corrected !== null,
+    });
+  }
+
+  return { colors: result, checks };
+}
+
+// What a pair is used for, each with its own minimum contrast
+export type ContrastUse = 'body' | 'large' | 'ui';
+
+export const WCAG_THRESHOLDS: Record<ContrastUse, number> = { body: 4.5, large: 3, ui: 3 };
+export const APCA_THRESHOLDS: Record<ContrastUse, number> = { body: 75, large: 60, ui: 45 };
+
+// Pairs that are only ever non-text UI (borders, inputs, focus rings)
+export const UI_PAIRS: [keyof ThemeColors, keyof ThemeColors][] = [
+  ['background', 'border'],
+  ['background', 'input'],
+  ['background', 'ring'],
+];
+
+export interface PairScore {
+  background: keyof ThemeColors;
+  foreground: keyof ThemeColors;
+  wcag: number;
+  // Signed APCA Lc (negative for light on dark)
+  apca: number;
+  uses: ContrastUse[];
+  wcagPasses: Partial<Record<ContrastUse, boolean>>;
+  apcaPasses: Partial<Record<ContrastUse, boolean>>;
+}
+
+// Score every token pair with both WCAG 2 and APCA
+export function scoreThemeContrast(colors: ThemeColors): PairScore[] {
+  const pageBackground = parseThemeColor(colors.background) ?? { r: 255, g: 255, b: 255 };
+  const pairs = [
+    ...CONTRAST_PAIRS.map(pair => ({ pair, uses: ['body', 'large', 'ui'] as ContrastUse[] })),
+    ...UI_PAIRS.map(pair => ({ pair, uses: ['ui'] as ContrastUse[] })),
+  ];
+
+  const scores: PairScore[] = [];
+
+  for (const { pair: [backgroundRole, foregroundRole], uses } of pairs) {
+    const background = parseThemeColor(colors[backgroundRole], pageBackground);
+    const foreground = background && parseThemeColor(colors[foregroundRole], background);
+    if (!background || !foreground) continue;
+
+    const wcag = getContrastRatio(foreground, background);
+    const apca = getAPCAContrast(foreground, background);
+    const wcagPasses: PairScore['wcagPasses'] = {};
+    const apcaPasses: PairScore['apcaPasses'] = {};
+
+    for (const use of uses) {
+      wcagPasses[use] = wcag >= WCAG_THRESHOLDS[use];
+      apcaPasses[use] = Math.abs(apca) >= APCA_THRESHOLDS[use];
+    }
+
+    scores.push({
+      background: backgroundRole,
+      foreground: foregroundRole,
+      wcag: Math.round(wcag * 100) / 100,
+      apca: Math.round(apca * 10) / 10,
+      uses,
+      wcagPasses,
+      apcaPasses,
+    });
+  }
+
+  return scores;
+}
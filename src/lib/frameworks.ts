@@ -0,0 +1,27 @@
+// UI frameworks whose theme variables map straight onto theme roles
+
+import type { ThemeColors } from './theme-generator';
+
+export const FRAMEWORK_NAMES = {
+  shadcn: 'shadcn/ui',
+  daisyui: 'daisyUI',
+  radix: 'Radix Themes',
+  mui: 'Material UI',
+  chakra: 'Chakra UI',
+  bootstrap: 'Bootstrap',
+  tailwind: 'Tailwind CSS',
+} as const;
+
+export type FrameworkId = keyof typeof FRAMEWORK_NAMES;
+
+export const FRAMEWORK_IDS = Object.keys(FRAMEWORK_NAMES) as FrameworkId[];
+
+// Hex colors for the roles a framework's variables define
+export type RoleColors = Partial<Record<keyof ThemeColors, string>>;
+
+export interface DetectedFramework {
+  id: FrameworkId;
+  light: RoleColors;
+  // Roles from the framework's dark scheme, when the site ships one
+  dark?: RoleColors;
+}
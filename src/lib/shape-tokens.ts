@@ -0,0 +1,33 @@
+// Corner radius, shadow scale and spacing unit found on a site, and the
+// variables they become in the theme output
+
+export interface ShadowScale {
+  sm: string | null;
+  md: string | null;
+  lg: string | null;
+}
+
+export interface ShapeTokens {
+  // shadcn --radius: cards are rounded 4px more, buttons and inputs 2px less
+  radius: string | null;
+  shadows: ShadowScale;
+  // Base spacing unit, as Tailwind v4's --spacing (e.g. `0.25rem`)
+  spacing: string | null;
+}
+
+export const DEFAULT_RADIUS = '0.5rem';
+
+// Custom properties for whatever the site's shape tokens define, in
+// output order; --radius is emitted separately since it always exists
+export function shapeVariables(shape: ShapeTokens | undefined): [string, string][] {
+  if (!shape) return [];
+  const variables: [string, string][] = [];
+
+  for (const size of ['sm', 'md', 'lg'] as const) {
+    const shadow = shape.shadows[size];
+    if (shadow) variables.push([`--shadow-${size}`, shadow]);
+  }
+  if (shape.spacing) variables.push(['--spacing', shape.spacing]);
+
+  return variables;
+}
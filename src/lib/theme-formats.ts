@@ -0,0 +1,126 @@
+// Rendering an extracted theme in the formats the API and UI offer
+
+import { parseColor, rgbToHex } from './color-utils';
+import {
+  type ExtractedTheme,
+  type ThemeColors,
+  ROLE_TOKEN_NAMES,
+  generateCSSOutput,
+} from './theme-generator';
+import { DEFAULT_RADIUS, shapeVariables } from './shape-tokens';
+import { FONT_VARIABLES, fontImportSnippet, fontVariables, splitFontStack } from './typography';
+
+export const THEME_FORMATS = ['css', 'tailwind', 'json', 'tokens'] as const;
+
+export type ThemeFormat = (typeof THEME_FORMATS)[number];
+
+export interface RenderedTheme {
+  format: ThemeFormat;
+  contentType: string;
+  // Suggested file name for downloads
+  filename: string;
+  output: string;
+}
+
+export function isThemeFormat(value: string): value is ThemeFormat {
+  return (THEME_FORMATS as readonly string[]).includes(value);
+}
+
+const roles = Object.keys(ROLE_TOKEN_NAMES) as (keyof ThemeColors)[];
+
+// Hex for a shadcn channel value (`h s% l%`, optionally `/ a`)
+function toHex(value: string): string {
+  const rgba = parseColor(`hsl(${value})`);
+  return rgba ? rgbToHex(rgba) : value;
+}
+
+// shadcn/ui for Tailwind v4: full hsl() values plus an @theme mapping
+function generateTailwindOutput(theme: ExtractedTheme): string {
+  const vars = (colors: ThemeColors) =>
+    roles.map(role => `  ${ROLE_TOKEN_NAMES[role]}: hsl(${colors[role]});`).join('\n');
+  const themeVars = roles
+    .map(role => `  --color-${ROLE_TOKEN_NAMES[role].slice(2)}: var(${ROLE_TOKEN_NAMES[role]});`)
+    .join('\n');
+  const extras = [...fontVariables(theme.typography), ...shapeVariables(theme.shape)];
+  const extraVars = extras.map(([name, value]) => `\n  ${name}: ${value};`).join('');
+  // --spacing is Tailwind's own theme variable, so the :root value applies as is
+  const extraThemeVars = extras
+    .filter(([name]) => name !== '--spacing')
+    .map(([name]) => `\n  ${name}: var(${name});`)
+    .join('');
+  const imports = fontImportSnippet(theme.typography);
+
+  return `${imports ? `${imports}\n\n` : ''}:root {
+${vars(theme.light)}
+  --radius: ${theme.shape?.radius ?? DEFAULT_RADIUS};${extraVars}
+}
+
+.dark {
+${vars(theme.dark)}
+}
+
+@theme inline {
+${themeVars}
+  --radius-sm: calc(var(--radius) - 4px);
+  --radius-md: calc(var(--radius) - 2px);
+  --radius-lg: var(--radius);
+  --radius-xl: calc(var(--radius) + 4px);${extraThemeVars}
+}`;
+}
+
+// W3C Design Tokens (DTCG) JSON, one group per color scheme
+function generateDesignTokens(theme: ExtractedTheme): string {
+  const group = (colors: ThemeColors) =>
+    Object.fromEntries(
+      roles.map(role => [ROLE_TOKEN_NAMES[role].slice(2), { $type: 'color', $value: toHex(colors[role]) }])
+    );
+
+  // Font families, plus the weights the site sets them in
+  const fonts = Object.fromEntries(
+    (['body', 'heading', 'mono'] as const).flatMap(role => {
+      const style = theme.typography?.[role];
+      if (!style) return [];
+      const name = FONT_VARIABLES[role].slice(2);
+      const tokens: [string, object][] = [[name, { $type: 'fontFamily', $value: splitFontStack(style.stack) }]];
+      if (style.weight !== null) tokens.push([`${name}-weight`, { $type: 'fontWeight', $value: style.weight }]);
+      return tokens;
+    })
+  );
+
+  // Radius and spacing unit as dimensions
+  const dimensions = Object.fromEntries(
+    ([['radius', theme.shape?.radius ?? DEFAULT_RADIUS], ['spacing', theme.shape?.spacing]] as const)
+      .filter(([, value]) => value)
+      .map(([name, value]) => [name, { $type: 'dimension', $value: value }])
+  );
+
+  return JSON.stringify({
+    light: group(theme.light),
+    dark: group(theme.dark),
+    ...(Object.keys(fonts).length > 0 && { font: fonts }),
+    size: dimensions,
+  }, null, 2);
+}
+
+export function renderTheme(theme: ExtractedTheme, format: ThemeFormat): RenderedTheme {
+  switch (format) {
+    case 'css':
+      return { format, contentType: 'text/css', filename: 'theme.css', output: generateCSSOutput(theme) };
+    case 'tailwind':
+      return { format, contentType: 'text/css', filename: 'theme.css', output: generateTailwindOutput(theme) };
+    case 'json':
+      return {
+        format,
+        contentType: 'application/json',
+        filename: 'theme.json',
+        output: JSON.stringify({
+          light: theme.light,
+          dark: theme.dark,
+          typography: theme.typography,
+          shape: theme.shape,
+        }, null, 2),
+      };
+    case 'tokens':
+      return { format, contentType: 'application/json', filename: 'tokens.json', output: generateDesignTokens(theme) };
+  }
+}
@@ -2,14 +2,34 @@
 
 import {
   type RGB,
+  type RGBA,
   type HSL,
   parseColor,
+  rgbToHex,
+  compositeOver,
   rgbToHsl,
   formatHslForShadcn,
   isLightColor,
-  colorDistance,
+  rgbToLab,
+  rgbToOklch,
+  deltaE2000,
+  deltaE2000Lab,
+  type Lab,
+  type OKLCH,
   getLuminance,
+  getContrastRatio,
 } from './color-utils';
+import {
+  type ContrastCheck,
+  type ContrastPreset,
+  type ContrastReport,
+  type ContrastTarget,
+  CONTRAST_PRESETS,
+  enforceContrast,
+} from './contrast';
+import { type DetectedFramework, type RoleColors, FRAMEWORK_NAMES } from './frameworks';
+import { type ShapeTokens, DEFAULT_RADIUS, shapeVariables } from './shape-tokens';
+import { type Typography, fontImportSnippet, fontVariables } from './typography';
 
 export interface ThemeColors {
   background: string;
@@ -37,16 +57,197 @@ export interface ExtractedTheme {
   light: ThemeColors;
   dark: ThemeColors;
   sourceColors: string[];
-  colorDetails?: { hex: string; frequency: number; hue: number }[];
+  colorDetails?: { hex: string; frequency: number; hue: number; sources?: ColorSource[] }[];
+  // Contrast of each background/foreground pair before and after correction
+  contrastReport?: ContrastReport;
+  // Whether the dark theme came from the site's own dark mode
+  darkSource?: 'site' | 'derived';
+  // Body, heading and monospace fonts of the source site
+  typography?: Typography;
+  // Corner radius, shadow scale and spacing unit of the source site
+  shape?: ShapeTokens;
+  // UI framework the roles were read from, if one was recognized
+  framework?: DetectedFramework;
+  // Why each role got its value, when generated with `explain`
+  explanation?: ThemeExplanation;
+}
+
+// One source of a role's color that generation tried, and what it found
+export interface RoleCandidate {
+  label: string;
+  // Hex found, or null when the source had nothing usable
+  color: string | null;
+}
+
+export interface RoleExplanation {
+  // Why the role has its value
+  reason: string;
+  // Hex of the color it was taken or derived from
+  source: string | null;
+  // Sources tried in order; the first with a color won
+  candidates: RoleCandidate[];
+}
+
+// A hue group as scored for the primary color's hue analysis
+export interface HueGroupScore {
+  // OKLCH hue bucket (30° wide)
+  hue: number;
+  frequency: number;
+  // Average HSL saturation
+  saturation: number;
+  // Score multiplier for likely error/warning reds and oranges (1 if none)
+  uiPenalty: number;
+  score: number;
+  // Hexes in the group, best first
+  colors: string[];
+}
+
+export interface ThemeExplanation {
+  light: Record<keyof ThemeColors, RoleExplanation>;
+  dark: Record<keyof ThemeColors, RoleExplanation>;
+  // Hue groups the analysis scored, best first
+  hueGroups: HueGroupScore[];
+}
+
+// Kinds of elements a color was found styling
+export type SelectorKind = 'root' | 'button' | 'link' | 'heading' | 'input';
+
+// Where a color was used in the source CSS
+export interface ColorUsage {
+  color: string;
+  count: number;
+  // Elements in the source page matched by the rules that set it
+  elements?: number;
+  // Color properties it was set on (background-color, color, border-color, fill, box-shadow...)
+  properties: string[];
+  selectors: SelectorKind[];
+}
+
+// Where a page declares a color outside its stylesheets
+export type ColorSource =
+  | 'theme-color'
+  | 'tile-color'
+  | 'manifest-theme-color'
+  | 'manifest-background-color'
+  | 'svg'
+  | 'style-attribute';
+
+// A color declared by a <meta> tag, the web app manifest, an inline SVG
+// paint attribute or a style="" attribute
+export interface DeclaredColor {
+  color: string;
+  source: ColorSource;
+  // Times it was declared by that source
+  count: number;
+  // Color scheme a theme-color <meta> is limited to by its media attribute
+  scheme?: 'light' | 'dark';
+}
+
+// Colors, tokens and usage found in one color scheme of the source site
+export interface ColorSchemeSource {
+  colors: string[];
+  tokens?: Record<string, string>;
+  usage?: ColorUsage[];
+  // How strongly each color (keyed by hex) features in this scheme
+  weights?: Record<string, number>;
+}
+
+export interface GenerateThemeOptions {
+  // Resolved design tokens declared by the source site (e.g. { '--primary': '#0f172a' })
+  tokens?: Record<string, string>;
+  // Property/selector attribution for each color, used as role hints
+  usage?: ColorUsage[];
+  // Emit translucent source colors (e.g. a 10% black border) with their alpha
+  // (`--border: 0 0% 0% / 0.1`) instead of compositing them over the background
+  preserveAlpha?: boolean;
+  // Contrast every foreground must reach on its background (default AA);
+  // null skips the correction pass
+  contrastTarget?: ContrastTarget | ContrastPreset | null;
+  // The site's own dark palette; when present the dark theme is built from
+  // it instead of being derived from the light palette
+  dark?: ColorSchemeSource;
+  // Colors declared outside the stylesheets; theme-color and friends are
+  // strong primary hints
+  declared?: DeclaredColor[];
+  // How strongly each color (keyed by hex) features on the source page;
+  // colors without a weight count once
+  weights?: Record<string, number>;
+  // Fonts found on the source site, carried into the theme output
+  typography?: Typography;
+  // Radius, shadows and spacing found on the source site, likewise
+  shape?: ShapeTokens;
+  // A recognized UI framework's role colors; they take precedence over
+  // the site's tokens, and only unmapped roles are chosen heuristically
+  framework?: DetectedFramework;
+  // Record why each role got its value (theme.explanation)
+  explain?: boolean;
+}
+
+// Custom property names a site may already use for each theme role
+export const ROLE_TOKEN_NAMES: Record<keyof ThemeColors, string> = {
+  background: '--background',
+  foreground: '--foreground',
+  card: '--card',
+  cardForeground: '--card-foreground',
+  popover: '--popover',
+  popoverForeground: '--popover-foreground',
+  primary: '--primary',
+  primaryForeground: '--primary-foreground',
+  secondary: '--secondary',
+  secondaryForeground: '--secondary-foreground',
+  muted: '--muted',
+  mutedForeground: '--muted-foreground',
+  accent: '--accent',
+  accentForeground: '--accent-foreground',
+  destructive: '--destructive',
+  destructiveForeground: '--destructive-foreground',
+  border: '--border',
+  input: '--input',
+  ring: '--ring',
+};
+
+// Custom property name for a camelCase role or token (cardForeground is
+// --card-foreground)
+export function toVarName(role: string): string {
+  return '--' + role.replace(/[A-Z]/g, c => '-' + c.toLowerCase());
 }
 
+// Declared brand colors, strongest first
+const BRAND_SOURCES: ColorSource[] = ['theme-color', 'manifest-theme-color', 'tile-color'];
+
+// Minimum frequency a declared brand color adds to the matching candidate;
+// with usage weights it adds as much as the most used color has
+const BRAND_WEIGHT = 10;
+
 interface ColorWithFrequency {
   color: RGB;
   hsl: HSL;
+  lab: Lab;
+  oklch: OKLCH;
   frequency: number;
   hex: string;
 }
 
+// CIEDE2000 difference below which two shades look identical
+const SAME_COLOR_DELTA_E = 2.3;
+
+// Collapse visually identical shades into one candidate, keeping the most
+// frequent shade as the representative and summing frequencies
+function mergeSimilarColors(colors: ColorWithFrequency[]): ColorWithFrequency[] {
+  const merged: ColorWithFrequency[] = [];
+
+  for (const color of [...colors].sort((a, b) => b.frequency - a.frequency)) {
+    const match = merged.find(m => deltaE2000Lab(m.lab, color.lab) < SAME_COLOR_DELTA_E);
+    if (match) {
+      match.frequency += color.frequency;
+    } else {
+      merged.push({ ...color });
+    }
+  }
+
+  return merged;
+}
+
 // Sort colors by their role (light to dark for backgrounds, etc.)
 function sortColorsByLuminance(colors: ColorWithFrequency[]): ColorWithFrequency[] {
   return [...colors].sort((a, b) => getLuminance(b.color) - getLuminance(a.color));
@@ -67,28 +268,29 @@ function findForegroundColor(
 
   if (candidates.length === 0) return null;
 
-  // Sort by how different they are from the background
+  // Sort by how different they look from the background
+  const backgroundLab = rgbToLab(background);
   candidates.sort((a, b) => {
-    const distA = colorDistance(a.color, background);
-    const distB = colorDistance(b.color, background);
+    const distA = deltaE2000Lab(a.lab, backgroundLab);
+    const distB = deltaE2000Lab(b.lab, backgroundLab);
     return distB - distA;
   });
 
   return candidates[0];
 }
 
-// Group colors by hue into buckets
+// Group colors by perceptual (OKLCH) hue into buckets
 function groupColorsByHue(colors: ColorWithFrequency[]): Map<number, ColorWithFrequency[]> {
   const hueGroups = new Map<number, ColorWithFrequency[]>();
 
   for (const color of colors) {
-    // Skip very desaturated colors (grays)
-    if (color.hsl.s < 15) continue;
+    // Skip near-neutral colors (grays)
+    if (color.oklch.c < 0.04) continue;
     // Skip very dark or very light colors
-    if (color.hsl.l < 15 || color.hsl.l > 90) continue;
+    if (color.oklch.l < 0.25 || color.oklch.l > 0.95) continue;
 
     // Group hues into 30-degree buckets (12 buckets total)
-    const hueBucket = Math.round(color.hsl.h / 30) * 30 % 360;
+    const hueBucket = Math.round(color.oklch.h / 30) * 30 % 360;
 
     if (!hueGroups.has(hueBucket)) {
       hueGroups.set(hueBucket, []);
@@ -99,6 +301,14 @@ function groupColorsByHue(colors: ColorWithFrequency[]): Map<number, ColorWithFr
   return hueGroups;
 }
 
+// Average of HSL hues, accounting for their circular nature
+function averageHue(colors: ColorWithFrequency[]): number {
+  const x = colors.reduce((sum, c) => sum + Math.cos((c.hsl.h * Math.PI) / 180), 0);
+  const y = colors.reduce((sum, c) => sum + Math.sin((c.hsl.h * Math.PI) / 180), 0);
+  const hue = (Math.atan2(y, x) * 180) / Math.PI;
+  return hue < 0 ? hue + 360 : hue;
+}
+
 // Check if a color is likely a UI/warning color (red, orange for errors)
 function isLikelyUIColor(hsl: HSL): boolean {
   // Red/orange range (0-30 and 330-360) often used for errors/warnings
@@ -107,29 +317,27 @@ function isLikelyUIColor(hsl: HSL): boolean {
   return isRedOrange && hsl.s > 70;
 }
 
-// Find the most saturated color (likely the primary/brand color)
-function findPrimaryColor(colors: ColorWithFrequency[]): ColorWithFrequency | null {
-  // First, try to find the dominant color by grouping similar hues
-  const hueGroups = groupColorsByHue(colors);
-
-  if (hueGroups.size === 0) {
-    // Fallback to old method if no good candidates
-    const candidates = colors.filter(c => c.hsl.s > 20 && c.hsl.l > 15 && c.hsl.l < 85);
-    if (candidates.length === 0) return null;
-    candidates.sort((a, b) => b.frequency - a.frequency);
-    return candidates[0];
-  }
+interface ScoredHueGroup {
+  hue: number;
+  // Colors in the group, best primary candidate first
+  colors: ColorWithFrequency[];
+  frequency: number;
+  saturation: number;
+  uiPenalty: number;
+  score: number;
+}
 
-  // Score each hue group by total frequency and average saturation
-  let bestGroup: { hue: number; colors: ColorWithFrequency[]; score: number } | null = null;
+// Score each hue group by total frequency and average saturation, best first
+function scoreHueGroups(colors: ColorWithFrequency[]): ScoredHueGroup[] {
+  const scored: ScoredHueGroup[] = [];
 
-  for (const [hue, groupColors] of hueGroups) {
+  for (const [hue, groupColors] of groupColorsByHue(colors)) {
     const totalFrequency = groupColors.reduce((sum, c) => sum + c.frequency, 0);
     const avgSaturation = groupColors.reduce((sum, c) => sum + c.hsl.s, 0) / groupColors.length;
 
     // Check if this hue group is likely a UI color
     const avgHsl: HSL = {
-      h: hue,
+      h: averageHue(groupColors),
       s: avgSaturation,
       l: groupColors.reduce((sum, c) => sum + c.hsl.l, 0) / groupColors.length,
     };
@@ -144,23 +352,31 @@ function findPrimaryColor(colors: ColorWithFrequency[]): ColorWithFrequency | nu
     // Frequency weighted at 70%, saturation at 30%
     const score = (totalFrequency * 0.7 + avgSaturation * 0.3) * uiPenalty;
 
-    if (!bestGroup || score > bestGroup.score) {
-      bestGroup = { hue, colors: groupColors, score };
-    }
+    // Within a group, prioritize frequency, then saturation
+    const ranked = [...groupColors].sort((a, b) => (b.frequency * 2 + b.hsl.s) - (a.frequency * 2 + a.hsl.s));
+
+    scored.push({ hue, colors: ranked, frequency: totalFrequency, saturation: avgSaturation, uiPenalty, score });
   }
 
-  if (!bestGroup) return null;
+  // Stable, so equal scores keep the first group found
+  return scored.sort((a, b) => b.score - a.score);
+}
 
-  // From the best hue group, pick the most frequent color with good saturation
-  const groupColors = bestGroup.colors;
-  groupColors.sort((a, b) => {
-    // Prioritize frequency, then saturation
-    const scoreA = a.frequency * 2 + a.hsl.s;
-    const scoreB = b.frequency * 2 + b.hsl.s;
-    return scoreB - scoreA;
-  });
+// Find the most saturated color (likely the primary/brand color)
+function findPrimaryColor(colors: ColorWithFrequency[]): ColorWithFrequency | null {
+  // First, try to find the dominant color by grouping similar hues
+  const groups = scoreHueGroups(colors);
+
+  if (groups.length === 0) {
+    // Fallback to old method if no good candidates
+    const candidates = colors.filter(c => c.hsl.s > 20 && c.hsl.l > 15 && c.hsl.l < 85);
+    if (candidates.length === 0) return null;
+    candidates.sort((a, b) => b.frequency - a.frequency);
+    return candidates[0];
+  }
 
-  return groupColors[0];
+  // From the best hue group, pick the most frequent color with good saturation
+  return groups[0].colors[0];
 }
 
 // Find a secondary/accent color (different hue from primary)
@@ -218,54 +434,354 @@ function generateBorderColor(backgroundHsl: HSL, lightMode: boolean): HSL {
   }
 }
 
-// Generate theme from extracted colors
-export function generateTheme(colorStrings: string[]): ExtractedTheme {
-  // Parse and deduplicate colors
+// Composite translucent colors over the background so overlays and
+// translucent borders count as the color they actually render as, then
+// deduplicate them into frequency-counted candidates
+function collectCandidates(
+  parsedColors: RGBA[],
+  background: RGB,
+  weights?: Record<string, number>
+): ColorWithFrequency[] {
   const colorMap = new Map<string, ColorWithFrequency>();
 
-  for (const colorStr of colorStrings) {
-    const rgb = parseColor(colorStr);
-    if (!rgb) continue;
-
-    const hex = `#${rgb.r.toString(16).padStart(2, '0')}${rgb.g.toString(16).padStart(2, '0')}${rgb.b.toString(16).padStart(2, '0')}`;
-    const hsl = rgbToHsl(rgb);
+  for (const rgba of parsedColors) {
+    const rgb = compositeOver(rgba, background);
+    const hex = rgbToHex(rgb);
+    const weight = Math.max(weights?.[rgbToHex(rgba)] ?? 1, 1);
 
     if (colorMap.has(hex)) {
       const existing = colorMap.get(hex)!;
-      existing.frequency += 1;
+      existing.frequency += weight;
     } else {
       colorMap.set(hex, {
         color: rgb,
-        hsl,
-        frequency: 1,
+        hsl: rgbToHsl(rgb),
+        lab: rgbToLab(rgb),
+        oklch: rgbToOklch(rgb),
+        frequency: weight,
         hex,
       });
     }
   }
 
-  const colors = Array.from(colorMap.values());
+  return mergeSimilarColors(Array.from(colorMap.values()));
+}
+
+// Parse color strings, keeping their alpha
+function parseColors(colorStrings: string[]): RGBA[] {
+  return colorStrings
+    .map(colorStr => parseColor(colorStr))
+    .filter((rgba): rgba is RGBA => rgba !== null);
+}
+
+// Find the opaque color with the highest (or lowest) luminance
+function findExtremeColor(colors: RGBA[], lightest: boolean): RGB | null {
+  return colors
+    .filter(c => c.a === 1)
+    .reduce<RGB | null>((best, c) => {
+      if (!best) return c;
+      return (getLuminance(c) > getLuminance(best)) === lightest ? c : best;
+    }, null);
+}
+
+// Look up the color a site declared for a theme role, if any
+function findTokenColor(
+  tokens: Record<string, string> | undefined,
+  role: keyof ThemeColors
+): RGBA | null {
+  const value = tokens?.[ROLE_TOKEN_NAMES[role]];
+  return value ? parseColor(value) : null;
+}
+
+// A source of a role's color, tried lazily in order
+type Choice = [label: string, pick: () => RGB | null | undefined | false];
+
+interface ChoiceResult {
+  color: RGB | null;
+  reason: string | null;
+  candidates: RoleCandidate[];
+}
+
+// Take the first choice that yields a color, noting what each one tried
+// found so the result can be explained
+function choose(choices: Choice[]): ChoiceResult {
+  const candidates: RoleCandidate[] = [];
+
+  for (const [label, pick] of choices) {
+    const color = pick() || null;
+    candidates.push({ label, color: color && rgbToHex(color) });
+    if (color) return { color, reason: label, candidates };
+  }
+
+  return { color: null, reason: null, candidates };
+}
+
+// Explain a role picked with `choose`, or its fallback when nothing matched
+function explainChoice(choice: ChoiceResult, fallback: string, fallbackSource: string | null = null): RoleExplanation {
+  return {
+    reason: choice.reason ?? fallback,
+    source: choice.color ? rgbToHex(choice.color) : fallbackSource,
+    candidates: choice.candidates,
+  };
+}
+
+// Explain a role computed from another
+function derived(reason: string, source: string | null = null): RoleExplanation {
+  return { reason, source, candidates: [] };
+}
+
+// Credit the roles tokens set (they override whatever was chosen) and note
+// the foregrounds the contrast pass adjusted
+function finishExplanation(
+  roles: Record<keyof ThemeColors, RoleExplanation>,
+  tokens: Record<string, string> | undefined,
+  tokenLabel: (role: keyof ThemeColors) => string,
+  checks: ContrastCheck[] | undefined
+): Record<keyof ThemeColors, RoleExplanation> {
+  const result = { ...roles };
+
+  for (const role of Object.keys(ROLE_TOKEN_NAMES) as (keyof ThemeColors)[]) {
+    const rgba = findTokenColor(tokens, role);
+    if (rgba) {
+      const hex = rgbToHex(rgba);
+      result[role] = { reason: tokenLabel(role), source: hex, candidates: [{ label: tokenLabel(role), color: hex }] };
+    }
+  }
+
+  for (const check of checks ?? []) {
+    if (check.adjusted) {
+      const role = result[check.foreground];
+      result[check.foreground] = { ...role, reason: `${role.reason}, lightness adjusted for contrast` };
+    }
+  }
+
+  return result;
+}
+
+// How much a usage entry counts: the declarations setting the color plus
+// the page elements their rules match
+function usageWeight(entry: ColorUsage): number {
+  return entry.count + (entry.elements ?? 0);
+}
+
+// Pick the most used color set on `property` for any of the given selector kinds
+function findColorByUsage(
+  usage: ColorUsage[] | undefined,
+  property: string,
+  kinds: SelectorKind[],
+  accept: (rgb: RGBA) => boolean = () => true
+): RGBA | null {
+  let best: { rgb: RGBA; weight: number } | null = null;
+
+  for (const entry of usage ?? []) {
+    if (!entry.properties.includes(property)) continue;
+    if (kinds.length > 0 && !kinds.some(kind => entry.selectors.includes(kind))) continue;
+
+    const rgb = parseColor(entry.color);
+    if (!rgb || !accept(rgb)) continue;
+
+    const weight = usageWeight(entry);
+    if (!best || weight > best.weight) {
+      best = { rgb, weight };
+    }
+  }
+
+  return best?.rgb ?? null;
+}
+
+// Pick the declared color from the strongest of `sources` that has one,
+// most declared first. Unscoped declarations count as light-scheme ones.
+function findDeclaredColor(
+  declared: DeclaredColor[] | undefined,
+  sources: ColorSource[],
+  scheme: 'light' | 'dark',
+  accept: (rgb: RGBA) => boolean = () => true
+): RGBA | null {
+  for (const source of sources) {
+    const matches = (declared ?? [])
+      .filter(entry => entry.source === source && (entry.scheme ?? 'light') === scheme)
+      .sort((a, b) => b.count - a.count);
+
+    for (const entry of matches) {
+      const rgb = parseColor(entry.color);
+      if (rgb && accept(rgb)) return rgb;
+    }
+  }
+
+  return null;
+}
+
+// Boost candidates that match a declared brand color and record which
+// sources declared each candidate
+function weighDeclaredColors(
+  colors: ColorWithFrequency[],
+  declared: DeclaredColor[] | undefined,
+  background: RGB
+): Map<ColorWithFrequency, ColorSource[]> {
+  const sources = new Map<ColorWithFrequency, ColorSource[]>();
+  const brandWeight = Math.max(BRAND_WEIGHT, ...colors.map(c => c.frequency));
+
+  for (const entry of declared ?? []) {
+    if (entry.scheme === 'dark') continue;
+    const rgba = parseColor(entry.color);
+    if (!rgba) continue;
+
+    const lab = rgbToLab(compositeOver(rgba, background));
+    const match = colors.find(c => deltaE2000Lab(c.lab, lab) < SAME_COLOR_DELTA_E);
+    if (!match) continue;
+
+    if (BRAND_SOURCES.includes(entry.source)) {
+      match.frequency += brandWeight;
+    }
+    const matchSources = sources.get(match) ?? [];
+    if (!matchSources.includes(entry.source)) matchSources.push(entry.source);
+    sources.set(match, matchSources);
+  }
+
+  return sources;
+}
+
+// Check if a color is saturated enough to be a brand color
+function isBrandCandidate(rgb: RGB): boolean {
+  const hsl = rgbToHsl(rgb);
+  return hsl.s > 20 && hsl.l > 15 && hsl.l < 90;
+}
+
+// Format a possibly translucent color for output, either keeping its alpha
+// or compositing it over the background
+function formatColor(color: RGBA, background: RGB, preserveAlpha: boolean): string {
+  return preserveAlpha && color.a < 1
+    ? formatHslForShadcn(rgbToHsl(color), color.a)
+    : formatHslForShadcn(rgbToHsl(compositeOver(color, background)));
+}
+
+// Layer a framework's role colors over the site's tokens, under the
+// shadcn names the rest of generation looks roles up by
+function withRoleColors(
+  tokens: Record<string, string> | undefined,
+  roles: RoleColors | undefined
+): Record<string, string> | undefined {
+  if (!roles || Object.keys(roles).length === 0) return tokens;
+
+  const result = { ...tokens };
+  for (const [role, color] of Object.entries(roles) as [keyof ThemeColors, string][]) {
+    result[ROLE_TOKEN_NAMES[role]] = color;
+  }
+  return result;
+}
+
+// Override generated roles with the site's own tokens where present
+function applyTokens(
+  colors: ThemeColors,
+  tokens: Record<string, string> | undefined,
+  background: RGB,
+  preserveAlpha: boolean
+): ThemeColors {
+  const result = { ...colors };
+  for (const role of Object.keys(ROLE_TOKEN_NAMES) as (keyof ThemeColors)[]) {
+    const rgba = findTokenColor(tokens, role);
+    if (rgba) {
+      result[role] = formatColor(rgba, background, preserveAlpha);
+    }
+  }
+  return result;
+}
+
+// Generate theme from extracted colors
+export function generateTheme(
+  colorStrings: string[],
+  options: GenerateThemeOptions = {}
+): ExtractedTheme {
+  const { usage, declared, weights, framework, preserveAlpha = false, contrastTarget = 'AA' } = options;
+  const tokens = withRoleColors(options.tokens, framework?.light);
+
+  // Default colors if extraction fails
+  const white: RGB = { r: 255, g: 255, b: 255 };
+  const defaultLight: RGB = white;
+  const defaultDark: RGB = { r: 9, g: 9, b: 11 };
+  const defaultPrimary: RGB = { r: 24, g: 24, b: 27 };
+
+  const parsedColors = parseColors(colorStrings);
+
+  // Roles read from a recognized framework are credited to it
+  const tokenLabel = (scheme: 'light' | 'dark') => (role: keyof ThemeColors) =>
+    framework?.[scheme]?.[role] ? `${FRAMEWORK_NAMES[framework.id]} variables` : `Site token ${ROLE_TOKEN_NAMES[role]}`;
+
+  // Select the light background first, from opaque colors only: the site's
+  // own tokens, then what body/html are actually painted with, then the
+  // manifest's background_color, then the lightest color found
+  const backgroundToken = findTokenColor(tokens, 'background');
+  const lightBackgroundChoice = choose([
+    [tokenLabel('light')('background'), () => backgroundToken && compositeOver(backgroundToken, white)],
+    ['html/body background', () => findColorByUsage(usage, 'background-color', ['root'], c => c.a === 1 && isLightColor(c))],
+    ['Manifest background_color', () =>
+      findDeclaredColor(declared, ['manifest-background-color'], 'light', c => c.a === 1 && isLightColor(c))],
+    ['Lightest color found', () => findExtremeColor(parsedColors, true)],
+  ]);
+  const lightBackground: RGB = lightBackgroundChoice.color ?? defaultLight;
+
+  const colors = collectCandidates(parsedColors, lightBackground, weights);
+  const declaredSources = weighDeclaredColors(colors, declared, lightBackground);
   const sortedByLuminance = sortColorsByLuminance(colors);
 
   // Find key colors
-  const lightestColors = sortedByLuminance.slice(0, Math.ceil(sortedByLuminance.length / 3));
   const darkestColors = sortedByLuminance.slice(-Math.ceil(sortedByLuminance.length / 3));
   const primaryCandidate = findPrimaryColor(colors);
 
-  // Default colors if extraction fails
-  const defaultLight: RGB = { r: 255, g: 255, b: 255 };
-  const defaultDark: RGB = { r: 9, g: 9, b: 11 };
-  const defaultPrimary: RGB = { r: 24, g: 24, b: 27 };
+  // Role hints from the source are composited over the background too
+  const solid = (rgba: RGBA | null, background: RGB = lightBackground): RGB | null =>
+    rgba && compositeOver(rgba, background);
 
-  // Select background colors
-  const lightBackground = lightestColors[0]?.color || defaultLight;
-  const darkBackground = darkestColors[darkestColors.length - 1]?.color || defaultDark;
+  // The site's own dark mode, if it ships one, takes precedence over
+  // anything derived from the light palette
+  const darkSource = options.dark && options.dark.colors.length > 0 ? options.dark : undefined;
+  const darkTokens = withRoleColors(darkSource?.tokens, framework?.dark);
+  const darkUsage = darkSource?.usage;
+  const darkParsedColors = parseColors(darkSource?.colors ?? []);
+  const darkBackgroundToken = findTokenColor(darkTokens, 'background');
 
-  // Select foreground colors
-  const lightForeground = findForegroundColor(lightBackground, colors)?.color || defaultDark;
-  const darkForeground = findForegroundColor(darkBackground, colors)?.color || defaultLight;
+  const darkBackgroundChoice = choose([
+    [tokenLabel('dark')('background'), () => darkBackgroundToken && compositeOver(darkBackgroundToken, defaultDark)],
+    ['Dark-mode html/body background', () =>
+      findColorByUsage(darkUsage, 'background-color', ['root'], c => c.a === 1 && !isLightColor(c))],
+    ['Darkest dark-mode color', () => darkSource && findExtremeColor(darkParsedColors, false)],
+    ['Dark html/body background', () =>
+      findColorByUsage(usage, 'background-color', ['root'], c => c.a === 1 && !isLightColor(c))],
+    ['Darkest color found', () => darkestColors[darkestColors.length - 1]?.color],
+  ]);
+  const darkBackground = darkBackgroundChoice.color ?? defaultDark;
+  const darkColors = darkSource ? collectCandidates(darkParsedColors, darkBackground, darkSource.weights ?? weights) : colors;
 
-  // Select primary color
-  const primary = primaryCandidate?.color || defaultPrimary;
+  // Select foreground colors, requiring readable contrast for usage hints
+  const readableOn = (background: RGB) => (c: RGBA) => getContrastRatio(compositeOver(c, background), background) >= 3;
+  const lightForegroundChoice = choose([
+    [tokenLabel('light')('foreground'), () => solid(findTokenColor(tokens, 'foreground'))],
+    ['html/body text color', () => solid(findColorByUsage(usage, 'color', ['root'], readableOn(lightBackground)))],
+    ['Heading text color', () => solid(findColorByUsage(usage, 'color', ['heading'], readableOn(lightBackground)))],
+    ['Color most distinct from the background', () => findForegroundColor(lightBackground, colors)?.color],
+  ]);
+  const lightForeground = lightForegroundChoice.color ?? defaultDark;
+  const darkForegroundChoice = choose([
+    [tokenLabel('dark')('foreground'), () => solid(findTokenColor(darkTokens, 'foreground'), darkBackground)],
+    ['Dark-mode html/body text color', () =>
+      solid(findColorByUsage(darkUsage ?? usage, 'color', ['root'], readableOn(darkBackground)), darkBackground)],
+    ['Color most distinct from the background', () => findForegroundColor(darkBackground, darkColors)?.color],
+  ]);
+  const darkForeground = darkForegroundChoice.color ?? defaultLight;
+
+  // Select primary color: declared brand colors (theme-color, manifest),
+  // then filled buttons, then links, then SVG artwork, then hue analysis
+  const primaryChoice = choose([
+    [tokenLabel('light')('primary'), () => solid(findTokenColor(tokens, 'primary'))],
+    ['Declared brand color (theme-color, manifest, tile)', () =>
+      solid(findDeclaredColor(declared, BRAND_SOURCES, 'light', c => c.a === 1 && isBrandCandidate(c)))],
+    ['Filled button background', () =>
+      solid(findColorByUsage(usage, 'background-color', ['button'], c => c.a === 1 && isBrandCandidate(c)))],
+    ['Link color', () => solid(findColorByUsage(usage, 'color', ['link'], c => c.a === 1 && isBrandCandidate(c)))],
+    ['Inline SVG color', () => solid(findDeclaredColor(declared, ['svg'], 'light', c => c.a === 1 && isBrandCandidate(c)))],
+    ['Hue analysis', () => primaryCandidate?.color],
+  ]);
+  const primary = primaryChoice.color ?? defaultPrimary;
   const primaryHsl = rgbToHsl(primary);
 
   // Generate secondary color (desaturated primary)
@@ -294,9 +810,20 @@ export function generateTheme(colorStrings: string[]): ExtractedTheme {
   const mutedLightHsl = muteColor(rgbToHsl(lightBackground), true);
   const mutedDarkHsl = muteColor(rgbToHsl(darkBackground), false);
 
-  // Border colors
-  const borderLightHsl = generateBorderColor(rgbToHsl(lightBackground), true);
-  const borderDarkHsl = generateBorderColor(rgbToHsl(darkBackground), false);
+  // Border colors, keeping translucent source borders' alpha when requested
+  const usedBorder = (background: RGB, light: boolean) =>
+    findColorByUsage(light ? usage : darkUsage ?? usage, 'border-color', [], c => {
+      const rendered = compositeOver(c, background);
+      return isLightColor(rendered) === light && deltaE2000(rendered, background) > SAME_COLOR_DELTA_E;
+    });
+  const borderLight = usedBorder(lightBackground, true);
+  const borderDark = usedBorder(darkBackground, false);
+  const borderLightColor = borderLight
+    ? formatColor(borderLight, lightBackground, preserveAlpha)
+    : formatHslForShadcn(generateBorderColor(rgbToHsl(lightBackground), true));
+  const borderDarkColor = borderDark
+    ? formatColor(borderDark, darkBackground, preserveAlpha)
+    : formatHslForShadcn(generateBorderColor(rgbToHsl(darkBackground), false));
 
   // Muted foreground
   const mutedForegroundLightHsl: HSL = { h: primaryHsl.h, s: 16, l: 47 };
@@ -307,7 +834,7 @@ export function generateTheme(colorStrings: string[]): ExtractedTheme {
     ? { h: primaryHsl.h, s: Math.min(primaryHsl.s, 50), l: 10 }
     : { h: primaryHsl.h, s: Math.min(primaryHsl.s, 50), l: 98 };
 
-  const light: ThemeColors = {
+  const generatedLight: ThemeColors = applyTokens({
     background: formatHslForShadcn(rgbToHsl(lightBackground)),
     foreground: formatHslForShadcn(rgbToHsl(lightForeground)),
     card: formatHslForShadcn(rgbToHsl(lightBackground)),
@@ -324,19 +851,29 @@ export function generateTheme(colorStrings: string[]): ExtractedTheme {
     accentForeground: formatHslForShadcn(primaryHsl),
     destructive: '0 84.2% 60.2%',
     destructiveForeground: '0 0% 98%',
-    border: formatHslForShadcn(borderLightHsl),
-    input: formatHslForShadcn(borderLightHsl),
+    border: borderLightColor,
+    input: borderLightColor,
     ring: formatHslForShadcn(primaryHsl),
-  };
+  }, tokens, lightBackground, preserveAlpha);
 
-  // Dark theme - invert relationships
-  const darkPrimaryHsl: HSL = {
-    h: primaryHsl.h,
-    s: primaryHsl.s,
-    l: Math.min(primaryHsl.l + 20, 90),
-  };
+  // Dark theme - the site's own dark primary, else invert relationships
+  const darkPrimaryChoice = choose([
+    [tokenLabel('dark')('primary'), () => solid(findTokenColor(darkTokens, 'primary'), darkBackground)],
+    ['Dark-scheme theme-color', () =>
+      solid(findDeclaredColor(declared, BRAND_SOURCES, 'dark', c => c.a === 1 && isBrandCandidate(c)), darkBackground)],
+    ['Dark-mode button background', () =>
+      solid(findColorByUsage(darkUsage, 'background-color', ['button'], c => c.a === 1 && isBrandCandidate(c)), darkBackground)],
+  ]);
+  const sourceDarkPrimary = darkPrimaryChoice.color;
+  const darkPrimaryHsl: HSL = sourceDarkPrimary
+    ? rgbToHsl(sourceDarkPrimary)
+    : {
+        h: primaryHsl.h,
+        s: primaryHsl.s,
+        l: Math.min(primaryHsl.l + 20, 90),
+      };
 
-  const dark: ThemeColors = {
+  const generatedDark: ThemeColors = applyTokens({
     background: formatHslForShadcn(rgbToHsl(darkBackground)),
     foreground: formatHslForShadcn(rgbToHsl(darkForeground)),
     card: formatHslForShadcn(rgbToHsl(darkBackground)),
@@ -353,11 +890,102 @@ export function generateTheme(colorStrings: string[]): ExtractedTheme {
     accentForeground: formatHslForShadcn(darkPrimaryHsl),
     destructive: '0 62.8% 30.6%',
     destructiveForeground: '0 0% 98%',
-    border: formatHslForShadcn(borderDarkHsl),
-    input: formatHslForShadcn(borderDarkHsl),
+    border: borderDarkColor,
+    input: borderDarkColor,
     ring: formatHslForShadcn({ h: primaryHsl.h, s: 27, l: 84 }),
+  }, darkTokens, darkBackground, preserveAlpha);
+
+  // Why each role has its value, for the Explain panel
+  const explainTheme = (): ThemeExplanation => {
+    const lightBackgroundExplained = explainChoice(lightBackgroundChoice, 'Default white');
+    const lightForegroundExplained = explainChoice(lightForegroundChoice, 'Default near-black');
+    const darkBackgroundExplained = explainChoice(darkBackgroundChoice, 'Default near-black');
+    const darkForegroundExplained = explainChoice(darkForegroundChoice, 'Default white');
+    const primaryExplained = explainChoice(primaryChoice, 'Default neutral');
+    const accentExplained: RoleExplanation = {
+      reason: accentCandidate ? 'Saturated color 60°+ from primary' : 'Complement of primary',
+      source: accentCandidate ? accentCandidate.hex : rgbToHex(primary),
+      candidates: [{ label: 'Saturated color 60°+ from primary', color: accentCandidate?.hex ?? null }],
+    };
+    const border = (rgba: RGBA | null, background: RGB): RoleExplanation => ({
+      reason: rgba ? 'Most used border color' : 'Background shifted slightly',
+      source: rgbToHex(rgba ?? background),
+      candidates: [{ label: 'Most used border color', color: rgba && rgbToHex(rgba) }],
+    });
+
+    const lightRoles: Record<keyof ThemeColors, RoleExplanation> = {
+      background: lightBackgroundExplained,
+      foreground: lightForegroundExplained,
+      card: derived('Same as background', rgbToHex(lightBackground)),
+      cardForeground: derived('Same as foreground', rgbToHex(lightForeground)),
+      popover: derived('Same as background', rgbToHex(lightBackground)),
+      popoverForeground: derived('Same as foreground', rgbToHex(lightForeground)),
+      primary: primaryExplained,
+      primaryForeground: derived('Primary hue, at the opposite end of lightness', rgbToHex(primary)),
+      secondary: derived('Primary hue, desaturated and lightened', rgbToHex(primary)),
+      secondaryForeground: derived('Same as primary', rgbToHex(primary)),
+      muted: derived('Background, desaturated and shifted', rgbToHex(lightBackground)),
+      mutedForeground: derived('Primary hue at mid lightness', rgbToHex(primary)),
+      accent: accentExplained,
+      accentForeground: derived('Same as primary', rgbToHex(primary)),
+      destructive: derived('Default red'),
+      destructiveForeground: derived('Default white'),
+      border: border(borderLight, lightBackground),
+      input: derived('Same as border', borderLight ? rgbToHex(borderLight) : rgbToHex(lightBackground)),
+      ring: derived('Same as primary', rgbToHex(primary)),
+    };
+
+    const darkPrimaryExplained = explainChoice(darkPrimaryChoice, 'Light primary, lightened', rgbToHex(primary));
+    const darkRoles: Record<keyof ThemeColors, RoleExplanation> = {
+      ...lightRoles,
+      background: darkBackgroundExplained,
+      foreground: darkForegroundExplained,
+      card: derived('Same as background', rgbToHex(darkBackground)),
+      cardForeground: derived('Same as foreground', rgbToHex(darkForeground)),
+      popover: derived('Same as background', rgbToHex(darkBackground)),
+      popoverForeground: derived('Same as foreground', rgbToHex(darkForeground)),
+      primary: darkPrimaryExplained,
+      secondary: derived('Primary hue, desaturated and darkened', rgbToHex(primary)),
+      secondaryForeground: derived('Same as primary', darkPrimaryExplained.source),
+      muted: derived('Background, desaturated and shifted', rgbToHex(darkBackground)),
+      accent: { ...accentExplained, reason: `${accentExplained.reason}, lightened` },
+      accentForeground: derived('Same as primary', darkPrimaryExplained.source),
+      destructive: derived('Default dark red'),
+      border: border(borderDark, darkBackground),
+      input: derived('Same as border', borderDark ? rgbToHex(borderDark) : rgbToHex(darkBackground)),
+      ring: derived('Primary hue, light and desaturated', rgbToHex(primary)),
+    };
+
+    return {
+      light: finishExplanation(lightRoles, tokens, tokenLabel('light'), contrastReport?.light),
+      dark: finishExplanation(darkRoles, darkTokens, tokenLabel('dark'), contrastReport?.dark),
+      hueGroups: scoreHueGroups(colors).map(group => ({
+        hue: group.hue,
+        frequency: Math.round(group.frequency * 100) / 100,
+        saturation: Math.round(group.saturation),
+        uiPenalty: group.uiPenalty,
+        score: Math.round(group.score * 100) / 100,
+        colors: group.colors.slice(0, 6).map(c => c.hex),
+      })),
+    };
   };
 
+  // Nudge foregrounds that miss the contrast target, keeping their hue
+  let light = generatedLight;
+  let dark = generatedDark;
+  let contrastReport: ContrastReport | undefined;
+
+  if (contrastTarget) {
+    const target = typeof contrastTarget === 'string' ? CONTRAST_PRESETS[contrastTarget] : contrastTarget;
+    const lightResult = enforceContrast(generatedLight, target);
+    const darkResult = enforceContrast(generatedDark, target);
+    light = lightResult.colors;
+    dark = darkResult.colors;
+    contrastReport = { target, light: lightResult.checks, dark: darkResult.checks };
+  }
+
+  const explanation = options.explain ? explainTheme() : undefined;
+
   // Sort colors by frequency for display, filter out pure blacks/whites/grays
   const sortedColors = colors
     .filter(c => c.hsl.s > 10 || (c.hsl.l > 5 && c.hsl.l < 95))
@@ -372,7 +1000,14 @@ export function generateTheme(colorStrings: string[]): ExtractedTheme {
       hex: c.hex,
       frequency: c.frequency,
       hue: Math.round(c.hsl.h),
+      ...(declaredSources.has(c) && { sources: declaredSources.get(c) }),
     })),
+    contrastReport,
+    darkSource: darkSource ? 'site' : 'derived',
+    typography: options.typography,
+    shape: options.shape,
+    framework,
+    ...(explanation && { explanation }),
   };
 }
 
@@ -401,10 +1036,15 @@ ${indent}--input: ${colors.input};
 ${indent}--ring: ${colors.ring};`;
   };
 
-  return `@layer base {
+  const extraVars = [...fontVariables(theme.typography), ...shapeVariables(theme.shape)]
+    .map(([name, value]) => `\n    ${name}: ${value};`)
+    .join('');
+  const imports = fontImportSnippet(theme.typography);
+
+  return `${imports ? `${imports}\n\n` : ''}@layer base {
   :root {
 ${formatThemeVars(theme.light)}
-    --radius: 0.5rem;
+    --radius: ${theme.shape?.radius ?? DEFAULT_RADIUS};${extraVars}
   }
 
   .dark {
@@ -413,10 +1053,7 @@ ${formatThemeVars(theme.dark, '  ')}
 }`;
 }
 
-// Generate theme from RGB colors (for image extraction)
-export function generateThemeFromRGB(colors: RGB[]): ExtractedTheme {
-  const colorStrings = colors.map(
-    c => `#${c.r.toString(16).padStart(2, '0')}${c.g.toString(16).padStart(2, '0')}${c.b.toString(16).padStart(2, '0')}`
-  );
-  return generateTheme(colorStrings);
+// Generate theme from RGB(A) colors (for image extraction)
+export function generateThemeFromRGB(colors: (RGB | RGBA)[]): ExtractedTheme {
+  return generateTheme(colors.map(c => rgbToHex(c)));
 }
@@ -0,0 +1,91 @@
+// Typography found on a site, and its font variables and import snippet
+
+export interface FontStyle {
+  // Font stack as declared, e.g. `"Inter", system-ui, sans-serif`
+  stack: string;
+  // First family in the stack, unquoted
+  family: string;
+  // Most used font-weight for the role
+  weight: number | null;
+  // Most used font-size for the role (`16px`, `1rem`...)
+  size: string | null;
+}
+
+export interface Typography {
+  body: FontStyle | null;
+  heading: FontStyle | null;
+  mono: FontStyle | null;
+  // Stylesheets that load the site's web fonts (Google Fonts and similar)
+  imports: string[];
+  // Families the site self-hosts with @font-face
+  fontFaces: string[];
+}
+
+export type FontRole = 'body' | 'heading' | 'mono';
+
+export const FONT_VARIABLES: Record<FontRole, string> = {
+  body: '--font-sans',
+  heading: '--font-heading',
+  mono: '--font-mono',
+};
+
+// Generic families that end a stack, so the output never depends on a
+// web font having loaded
+const GENERIC_FAMILIES = /^(?:serif|sans-serif|monospace|cursive|fantasy|system-ui|ui-\w+)$/i;
+
+const FALLBACK_STACKS: Record<FontRole, string> = {
+  body: 'ui-sans-serif, system-ui, sans-serif',
+  heading: 'ui-sans-serif, system-ui, sans-serif',
+  mono: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+};
+
+// The families of a font stack, unquoted
+export function splitFontStack(stack: string): string[] {
+  return stack.split(',').map(family => family.trim().replace(/^(["'])(.*)\1$/, '$2'));
+}
+
+// A stack with a generic fallback appended when it has none
+export function withFallback(stack: string, role: FontRole): string {
+  return splitFontStack(stack).some(family => GENERIC_FAMILIES.test(family))
+    ? stack
+    : `${stack}, ${FALLBACK_STACKS[role]}`;
+}
+
+// Font custom properties for the theme: a heading font falls back to the
+// body font, and roles the site doesn't set are left out
+export function fontVariables(typography: Typography | undefined): [string, string][] {
+  if (!typography) return [];
+  const variables: [string, string][] = [];
+
+  if (typography.body) {
+    variables.push([FONT_VARIABLES.body, withFallback(typography.body.stack, 'body')]);
+  }
+  if (typography.heading) {
+    variables.push([FONT_VARIABLES.heading, withFallback(typography.heading.stack, 'heading')]);
+  } else if (typography.body) {
+    variables.push([FONT_VARIABLES.heading, `var(${FONT_VARIABLES.body})`]);
+  }
+  if (typography.mono) {
+    variables.push([FONT_VARIABLES.mono, withFallback(typography.mono.stack, 'mono')]);
+  }
+
+  return variables;
+}
+
+// @import rules for the web font stylesheets, plus a note listing the
+// self-hosted families used by the theme, which have to be copied over
+export function fontImportSnippet(typography: Typography | undefined): string {
+  if (!typography) return '';
+
+  const lines = typography.imports.map(url => `@import url('${url.replace(/'/g, '%27')}');`);
+
+  const used = [typography.body, typography.heading, typography.mono]
+    .filter((style): style is FontStyle => style !== null)
+    .map(style => style.family);
+  const selfHosted = typography.fontFaces.filter(family => used.includes(family));
+  if (selfHosted.length > 0) {
+    lines.push(`/* Self-hosted by the source site: ${selfHosted.join(', ')} */`);
+  }
+
+  return lines.join('\n');
+}
@@ -1,14 +1,133 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import fs from 'fs'
+import type { IncomingMessage, ServerResponse } from 'http'
 import path from 'path'
 
+// The part of a Pages Function's context the functions use
+type PagesHandler = (context: {
+  request: Request
+  functionPath: string
+  waitUntil: (promise: Promise<unknown>) => void
+  passThroughOnException: () => void
+  next: () => Promise<Response>
+  env: Record<string, string | undefined>
+  params: Record<string, string>
+  data: Record<string, unknown>
+}) => Response | Promise<Response>
+
+// Module for an /api path, routed like Pages: functions/api/extract.ts
+// serves /api/extract, functions/api/extract/stream.ts /api/extract/stream
+function findFunctionFile(pathname: string): string | null {
+  const route = decodeURIComponent(pathname).replace(/^\/api\/?/, '').replace(/\/$/, '')
+  if (route.split('/').some(part => part === '..' || part.startsWith('_') || part.endsWith('.d'))) return null
+
+  const base = path.resolve(__dirname, 'functions/api', route)
+  return [`${base}.ts`, path.join(base, 'index.ts')].find(file => fs.existsSync(file)) ?? null
+}
+
+async function toRequest(req: IncomingMessage): Promise<Request> {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(req.headers)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      headers.append(name, item)
+    }
+  }
+
+  const method = req.method ?? 'GET'
+  let body: Buffer | undefined
+  if (method !== 'GET' && method !== 'HEAD') {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) chunks.push(chunk as Buffer)
+    body = Buffer.concat(chunks)
+  }
+
+  return new Request(new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`), { method, headers, body })
+}
+
+// Copy a Response to Node's, streaming the body so Server-Sent Events
+// arrive as they're sent; a client that disconnects cancels the stream
+async function sendResponse(response: Response, res: ServerResponse): Promise<void> {
+  res.statusCode = response.status
+  response.headers.forEach((value, name) => res.setHeader(name, value))
+  if (!response.body) {
+    res.end()
+    return
+  }
+
+  const reader = response.body.getReader()
+  res.on('close', () => {
+    reader.cancel().catch(() => {})
+  })
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    res.write(value)
+  }
+  res.end()
+}
+
+// Serve functions/api/* on /api/* in the dev server, so the app talks to
+// the same handlers locally as on Cloudflare Pages. Handlers are loaded
+// through Vite, so edits apply on the next request; bindings are absent,
+// so the in-memory cache and rate limits are used.
+function pagesFunctions(env: Record<string, string | undefined>): Plugin {
+  return {
+    name: 'pages-functions',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const pathname = new URL(req.url ?? '/', 'http://localhost').pathname
+        if (!pathname.startsWith('/api/')) return next()
+
+        try {
+          const file = findFunctionFile(pathname)
+          const module = file ? await server.ssrLoadModule(file) : null
+          const method = (req.method ?? 'GET').toLowerCase()
+          const handler: PagesHandler | undefined =
+            module?.[`onRequest${method[0].toUpperCase()}${method.slice(1)}`] ?? module?.onRequest
+          // Like Pages, requests no function handles fall through to the app
+          if (!handler) return next()
+
+          const response = await handler({
+            request: await toRequest(req),
+            functionPath: pathname,
+            waitUntil: promise => {
+              promise.catch(error => server.config.logger.error(`waitUntil: ${error}`))
+            },
+            passThroughOnException: () => {},
+            next: async () => new Response('Not found', { status: 404 }),
+            env,
+            params: {},
+            data: {},
+          })
+          await sendResponse(response, res)
+        } catch (error) {
+          if (error instanceof Error) server.ssrFixStacktrace(error)
+          next(error)
+        }
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react(), tailwindcss()],
-  resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src'),
+export default defineConfig(({ mode }) => {
+  // Function bindings for local runs, from .env files (e.g. .env.local)
+  const env = loadEnv(mode, process.cwd(), '')
+
+  return {
+    plugins: [
+      react(),
+      tailwindcss(),
+      pagesFunctions({ API_KEYS: env.API_KEYS, ALLOW_PRIVATE_HOSTS: env.ALLOW_PRIVATE_HOSTS }),
+    ],
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, './src'),
+      },
     },
-  },
+  }
 })